@@ -0,0 +1,12 @@
+/**
+ * Regenerates src/records.ts from the schema definitions. Must be run after the package is built
+ */
+const fs = require('fs');
+const path = require('path');
+
+const { schema, typings } = require('../dist');
+
+const OUTPUT_FILE = path.resolve(__dirname, '../src/records.ts');
+
+fs.writeFileSync(OUTPUT_FILE, typings.generateRecordInterfaces(schema));
+console.log(`wrote: ${OUTPUT_FILE}`);
@@ -46,6 +46,9 @@ PERMISSIONS.ALL = PERMISSIONS.READ | PERMISSIONS.CREATE | PERMISSIONS.UPDATE | P
 
 const REVIEW_STATUS = ['pending', 'not required', 'passed', 'failed', 'initial'];
 
+/** matches the record ID formats accepted by castToRID (ex. #44:0 or 44:0) */
+const RID_PATTERN = '^#?-?\\d{1,5}:-?\\d+$';
+
 class GraphRecordId extends String {}
 
 const RID = GraphRecordId;
@@ -58,5 +61,6 @@ export {
     EXPOSE_EDGE,
     EXPOSE_READ,
     PERMISSIONS,
+    RID_PATTERN,
     RID, // IMPORTANT: to be patched with orientjs.RID for API and not GUI
 };
@@ -0,0 +1,180 @@
+/**
+ * Generate the OrientDB SQL statements required to create the schema in a new database
+ * @module ddl
+ */
+import { ClassDefinition, IndexType, PropertyDefinition } from './types';
+import type { SchemaDefinition } from './schema';
+
+/** classes which already exist in every OrientDB graph database */
+const BUILTIN_CLASSES = ['V', 'E'];
+
+/**
+ * quote a string literal for use in OrientDB SQL
+ */
+const quote = (value: string) => JSON.stringify(value);
+
+/**
+ * check if a property is stored in the database (vs. record metadata such as @rid and @class)
+ */
+const isStoredProperty = (prop: PropertyDefinition) => !prop.name.startsWith('@');
+
+/**
+ * @example
+ * > createClassStatement(schema.get('Publication'))
+ * 'CREATE CLASS Publication IF NOT EXISTS EXTENDS Evidence, Ontology'
+ */
+const createClassStatement = (model: ClassDefinition): string => {
+    let superClasses = model.inherits;
+
+    if (model.isEdge && !superClasses.length) {
+        superClasses = ['E'];
+    }
+    let statement = `CREATE CLASS ${model.name} IF NOT EXISTS`;
+
+    if (superClasses.length) {
+        statement = `${statement} EXTENDS ${superClasses.join(', ')}`;
+    }
+    if (model.isAbstract) {
+        statement = `${statement} ABSTRACT`;
+    }
+    return statement;
+};
+
+/**
+ * the database-level constraints for a property as a mapping of the ALTER PROPERTY attribute to its value
+ */
+const propertyConstraints = (prop: PropertyDefinition): Record<string, string> => {
+    const constraints: Record<string, string> = {};
+
+    if (prop.mandatory) {
+        constraints.MANDATORY = 'TRUE';
+    }
+    if (!prop.nullable) {
+        constraints.NOTNULL = 'TRUE';
+    }
+    // for lists and strings MIN/MAX restrict the size/length rather than the value
+    let min = prop.iterable
+        ? prop.minItems
+        : prop.minimum;
+    const max = prop.iterable
+        ? prop.maxItems
+        : prop.maximum;
+
+    if (min === undefined && prop.nonEmpty && prop.type === 'string') {
+        min = 1;
+    }
+    if (min !== undefined) {
+        constraints.MIN = `${min}`;
+    }
+    if (max !== undefined) {
+        constraints.MAX = `${max}`;
+    }
+    if (prop.pattern && !prop.iterable) {
+        constraints.REGEXP = quote(prop.pattern);
+    }
+    return constraints;
+};
+
+/**
+ * @example
+ * > createPropertyStatement('Statement', schema.getProperty('Statement', 'relevance'))
+ * 'CREATE PROPERTY Statement.relevance IF NOT EXISTS LINK Vocabulary'
+ */
+const createPropertyStatement = (modelName: string, prop: PropertyDefinition): string => {
+    const statement = `CREATE PROPERTY ${modelName}.${prop.name} IF NOT EXISTS ${prop.type.toUpperCase()}`;
+
+    if (prop.linkedClass) {
+        return `${statement} ${prop.linkedClass}`;
+    }
+    if (prop.linkedType) {
+        return `${statement} ${prop.linkedType.toUpperCase()}`;
+    }
+    return statement;
+};
+
+/**
+ * Create the statements to add a property and its constraints to a class
+ *
+ * @example
+ * > createPropertyStatements('Statement', schema.getProperty('Statement', 'relevance'))
+ * [
+ *     'CREATE PROPERTY Statement.relevance IF NOT EXISTS LINK Vocabulary',
+ *     'ALTER PROPERTY Statement.relevance MANDATORY TRUE',
+ *     'ALTER PROPERTY Statement.relevance NOTNULL TRUE',
+ * ]
+ */
+const createPropertyStatements = (modelName: string, prop: PropertyDefinition): string[] => [
+    createPropertyStatement(modelName, prop),
+    ...Object.entries(propertyConstraints(prop))
+        .map(([constraint, value]) => `ALTER PROPERTY ${modelName}.${prop.name} ${constraint} ${value}`),
+];
+
+/**
+ * @example
+ * > createIndexStatement(activeUUID('V'))
+ * 'CREATE INDEX ActiveVUUID IF NOT EXISTS ON V (uuid, deletedAt) UNIQUE METADATA {"ignoreNullValues": false}'
+ */
+const createIndexStatement = (index: IndexType): string => {
+    let statement = `CREATE INDEX ${index.name} IF NOT EXISTS ON ${index.class} (${index.properties.join(', ')}) ${index.type}`;
+
+    if (index.type.startsWith('FULLTEXT')) {
+        statement = `${statement} ENGINE LUCENE`;
+    }
+    if (index.metadata) {
+        statement = `${statement} METADATA {"ignoreNullValues": ${index.metadata.ignoreNullValues}}`;
+    }
+    return statement;
+};
+
+/**
+ * Create the ordered list of statements to build the schema in an empty database.
+ *
+ * All classes are created first (in the order given by splitClassLevels) so that link and embedded
+ * properties can refer to any other class, followed by the properties and then the indices
+ */
+const generateDdlStatements = (schema: SchemaDefinition): string[] => {
+    const models = schema.splitClassLevels()
+        .reduce((acc, level) => [...acc, ...level.slice().sort()], [] as string[])
+        .filter((name) => schema.has(name))
+        .map((name) => schema.get(name));
+    const statements: string[] = [];
+
+    for (const model of models) {
+        if (!BUILTIN_CLASSES.includes(model.name)) {
+            statements.push(createClassStatement(model));
+        }
+    }
+
+    for (const model of models) {
+        for (const prop of Object.values(model.properties)) {
+            if (isStoredProperty(prop)) {
+                statements.push(...createPropertyStatements(model.name, prop));
+            }
+        }
+    }
+
+    for (const model of models) {
+        statements.push(...model.indices.map(createIndexStatement));
+    }
+    return statements;
+};
+
+/**
+ * Create an OrientDB SQL script (one statement per line) to build the schema in an empty database
+ */
+const generateDdlScript = (schema: SchemaDefinition): string => generateDdlStatements(schema)
+    .map((statement) => `${statement};\n`)
+    .join('');
+
+export {
+    BUILTIN_CLASSES,
+    createClassStatement,
+    createIndexStatement,
+    createPropertyStatement,
+    createPropertyStatements,
+    generateDdlScript,
+    generateDdlStatements,
+    isStoredProperty,
+    propertyConstraints,
+    quote,
+};
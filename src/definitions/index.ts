@@ -137,6 +137,7 @@ const BASE_SCHEMA: PartialSchemaDefn = {
                 type: 'embeddedlist',
                 nullable: false,
                 mandatory: true,
+                permissions: { default: PERMISSIONS.NONE, admin: PERMISSIONS.ALL },
             },
         ],
     },
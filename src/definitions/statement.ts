@@ -1,9 +1,30 @@
-import { REVIEW_STATUS, EXPOSE_ALL, EXPOSE_NONE } from '../constants';
+import {
+    REVIEW_STATUS, EXPOSE_ALL, EXPOSE_NONE, PERMISSIONS,
+} from '../constants';
 import { BASE_PROPERTIES, defineSimpleIndex } from './util';
-import { DEFAULT_TEMPLATE, chooseDefaultTemplate } from '../sentenceTemplates';
+import {
+    DEFAULT_TEMPLATE, chooseDefaultTemplate, validateTemplate, validTemplate,
+} from '../sentenceTemplates';
+import { checkReviewStatus, generateReviewStatus } from '../reviewStatus';
 import * as util from '../util';
 import { PartialSchemaDefn } from '../types';
 
+/**
+ * checks of a statement involving more than one property. On update only the checks involving the changed
+ * properties are made so existing statements can still be edited
+ */
+const validateStatement = (record: Record<string, unknown>, changes?: string[]) => {
+    const changed = (...names: string[]) => !changes || names.some((name) => changes.includes(name));
+
+    // the review status may be given by the user but must agree with the reviews
+    if (changed('reviews', 'reviewStatus')) {
+        checkReviewStatus(record);
+    }
+    if (changed('displayNameTemplate', 'subject', 'conditions')) {
+        validateTemplate(record);
+    }
+};
+
 const models: PartialSchemaDefn = {
     StatementReview: {
         description: 'Review of a statement',
@@ -68,6 +89,9 @@ const models: PartialSchemaDefn = {
                 type: 'string',
                 choices: REVIEW_STATUS,
                 description: 'The review status of the overall statement. The amalgemated status of all (or no) reviews',
+                generateDefault: generateReviewStatus,
+                generationDependencies: true,
+                permissions: { default: PERMISSIONS.READ, manager: PERMISSIONS.ALL, admin: PERMISSIONS.ALL },
             },
             {
                 name: 'sourceId',
@@ -99,6 +123,7 @@ const models: PartialSchemaDefn = {
                 },
                 generationDependencies: true,
                 cast: util.castString, // skip default lowercasing
+                check: validTemplate,
             },
         ],
         indices: [
@@ -124,7 +149,7 @@ const models: PartialSchemaDefn = {
                 class: 'Statement',
             },
         ],
-
+        validate: validateStatement,
     },
 };
 
@@ -24,6 +24,7 @@ const models: PartialSchemaDefn = {
             {
                 name: 'email',
                 description: 'the email address to contact this user at',
+                permissions: { default: PERMISSIONS.NONE, admin: PERMISSIONS.ALL },
                 cast: (email) => {
                     if (typeof email !== 'string' || !isEmail(email)) {
                         throw new ValidationError(`Email (${email}) does not look like a valid email address`);
@@ -68,6 +69,7 @@ const models: PartialSchemaDefn = {
                 name: 'loginCount',
                 type: 'integer',
                 description: 'The number of times this user has logged in',
+                permissions: { default: PERMISSIONS.NONE, admin: PERMISSIONS.ALL },
                 examples: [10],
                 nullable: true,
             },
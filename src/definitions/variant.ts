@@ -3,6 +3,7 @@ import { EXPOSE_READ } from '../constants';
 
 import { BASE_PROPERTIES, castBreakRepr, generateBreakRepr } from './util';
 import { PartialSchemaDefn } from '../types';
+import { generateVariantDisplayName } from '../variantNotation';
 
 const models: PartialSchemaDefn = {
     Variant: {
@@ -63,6 +64,7 @@ const models: PartialSchemaDefn = {
             },
             {
                 ...BASE_PROPERTIES.displayName,
+                generateDefault: generateVariantDisplayName,
             },
             {
                 name: 'break1End',
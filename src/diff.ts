@@ -0,0 +1,283 @@
+/**
+ * Compare two versions of the schema to report changes and their compatibility with existing databases
+ * @module diff
+ */
+import {
+    ClassDefinition, IndexType, PropertyDefinition, SchemaChange, SchemaDiff,
+} from './types';
+import type { SchemaDefinition } from './schema';
+
+const sameValue = (value1: unknown, value2: unknown) => JSON.stringify(value1) === JSON.stringify(value2);
+
+/**
+ * compare the attributes of a property which affect the data that can be stored for it
+ */
+const compareProperty = (
+    newSchema: SchemaDefinition,
+    modelName: string,
+    oldProp: PropertyDefinition,
+    newProp: PropertyDefinition,
+): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    const change = (attribute: string, breaking: boolean, description: string) => changes.push({
+        type: 'PROPERTY_CHANGED',
+        model: modelName,
+        property: newProp.name,
+        attribute,
+        from: oldProp[attribute],
+        to: newProp[attribute],
+        breaking,
+        description: `${modelName}.${newProp.name}: ${description}`,
+    });
+
+    if (oldProp.type !== newProp.type) {
+        change('type', true, `type changed from ${oldProp.type} to ${newProp.type}`);
+    }
+    if (Boolean(oldProp.mandatory) !== Boolean(newProp.mandatory)) {
+        change('mandatory', Boolean(newProp.mandatory), newProp.mandatory
+            ? 'is now mandatory'
+            : 'is no longer mandatory');
+    }
+    if (Boolean(oldProp.nullable) !== Boolean(newProp.nullable)) {
+        change('nullable', !newProp.nullable, newProp.nullable
+            ? 'is now nullable'
+            : 'is no longer nullable');
+    }
+    if (!sameValue(oldProp.choices, newProp.choices)) {
+        if (!newProp.choices) {
+            change('choices', false, 'choices are no longer restricted');
+        } else if (!oldProp.choices) {
+            change('choices', true, `restricted to the choices [${newProp.choices.join(', ')}]`);
+        } else {
+            const removed = oldProp.choices.filter((choice) => !newProp.choices?.includes(choice));
+            const added = newProp.choices.filter((choice) => !oldProp.choices?.includes(choice));
+            const messages: string[] = [];
+
+            if (added.length) {
+                messages.push(`added choices [${added.join(', ')}]`);
+            }
+            if (removed.length) {
+                messages.push(`removed choices [${removed.join(', ')}]`);
+            }
+            change('choices', removed.length > 0, messages.join(' and ') || 'choices were re-ordered');
+        }
+    }
+    if (oldProp.linkedClass !== newProp.linkedClass) {
+        // pointing to a parent of the previous linked class still allows all the previous records
+        const broadened = !newProp.linkedClass || (
+            oldProp.linkedClass !== undefined
+            && newSchema.has(oldProp.linkedClass)
+            && newSchema.inheritsFrom(oldProp.linkedClass, newProp.linkedClass)
+        );
+        change('linkedClass', !broadened, `linkedClass changed from ${oldProp.linkedClass} to ${newProp.linkedClass}`);
+    }
+    return changes;
+};
+
+const compareIndices = (modelName: string, oldIndices: IndexType[], newIndices: IndexType[]): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    const oldByName: Record<string, IndexType> = {};
+    const newByName: Record<string, IndexType> = {};
+    oldIndices.forEach((index) => { oldByName[index.name] = index; });
+    newIndices.forEach((index) => { newByName[index.name] = index; });
+
+    for (const index of newIndices) {
+        const oldIndex = oldByName[index.name];
+
+        if (!oldIndex) {
+            changes.push({
+                type: 'INDEX_ADDED',
+                model: modelName,
+                index: index.name,
+                to: index,
+                // existing records may violate a new unique constraint
+                breaking: index.type === 'UNIQUE',
+                description: `${modelName}: added ${index.type} index ${index.name} (${index.properties.join(', ')})`,
+            });
+        } else if (!sameValue(oldIndex, index)) {
+            changes.push({
+                type: 'INDEX_CHANGED',
+                model: modelName,
+                index: index.name,
+                from: oldIndex,
+                to: index,
+                breaking: index.type === 'UNIQUE',
+                description: `${modelName}: changed index ${index.name}`,
+            });
+        }
+    }
+
+    for (const index of oldIndices) {
+        if (!newByName[index.name]) {
+            changes.push({
+                type: 'INDEX_REMOVED',
+                model: modelName,
+                index: index.name,
+                from: index,
+                breaking: false,
+                description: `${modelName}: removed index ${index.name}`,
+            });
+        }
+    }
+    return changes;
+};
+
+const comparePermissions = (oldModel: ClassDefinition, newModel: ClassDefinition): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    const groups = Array.from(new Set([...Object.keys(oldModel.permissions), ...Object.keys(newModel.permissions)]));
+
+    for (const group of groups) {
+        const oldBits = oldModel.permissions[group];
+        const newBits = newModel.permissions[group];
+
+        if (oldBits === newBits) {
+            continue;
+        }
+        const removedBits = (oldBits || 0) & ~(newBits || 0);
+        changes.push({
+            type: 'PERMISSIONS_CHANGED',
+            model: newModel.name,
+            group,
+            from: oldBits,
+            to: newBits,
+            // removing access may break existing users of the API
+            breaking: removedBits !== 0,
+            description: `${newModel.name}: ${group} permissions changed from ${oldBits} to ${newBits}`,
+        });
+    }
+    return changes;
+};
+
+const compareClass = (
+    newSchema: SchemaDefinition,
+    oldModel: ClassDefinition,
+    newModel: ClassDefinition,
+): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    const { name } = newModel;
+
+    if (!sameValue(oldModel.inherits, newModel.inherits)) {
+        changes.push({
+            type: 'CLASS_CHANGED',
+            model: name,
+            attribute: 'inherits',
+            from: oldModel.inherits,
+            to: newModel.inherits,
+            breaking: true,
+            description: `${name}: parent classes changed from [${oldModel.inherits.join(', ')}] to [${newModel.inherits.join(', ')}]`,
+        });
+    }
+    if (oldModel.isAbstract !== newModel.isAbstract) {
+        changes.push({
+            type: 'CLASS_CHANGED',
+            model: name,
+            attribute: 'isAbstract',
+            from: oldModel.isAbstract,
+            to: newModel.isAbstract,
+            breaking: newModel.isAbstract,
+            description: `${name}: ${newModel.isAbstract
+                ? 'is now'
+                : 'is no longer'} abstract`,
+        });
+    }
+
+    for (const [propName, newProp] of Object.entries(newModel.properties)) {
+        const oldProp = oldModel.properties[propName];
+
+        if (!oldProp) {
+            const requiresBackfill = Boolean(newProp.mandatory)
+                && newProp.default === undefined
+                && !newProp.generateDefault;
+            changes.push({
+                type: 'PROPERTY_ADDED',
+                model: name,
+                property: propName,
+                to: newProp.type,
+                breaking: requiresBackfill,
+                description: `${name}.${propName}: added ${newProp.mandatory
+                    ? 'mandatory'
+                    : 'optional'} ${newProp.type} property`,
+            });
+        } else {
+            changes.push(...compareProperty(newSchema, name, oldProp, newProp));
+        }
+    }
+
+    for (const propName of Object.keys(oldModel.properties)) {
+        if (!newModel.properties[propName]) {
+            changes.push({
+                type: 'PROPERTY_REMOVED',
+                model: name,
+                property: propName,
+                from: oldModel.properties[propName].type,
+                breaking: true,
+                description: `${name}.${propName}: removed property`,
+            });
+        }
+    }
+    changes.push(...compareIndices(name, oldModel.indices, newModel.indices));
+    changes.push(...comparePermissions(oldModel, newModel));
+    return changes;
+};
+
+/**
+ * Compare two versions of the schema and classify each change as breaking or backwards-compatible
+ *
+ * @param oldSchema the current/released schema
+ * @param newSchema the schema being compared to it
+ */
+const compareSchemas = (oldSchema: SchemaDefinition, newSchema: SchemaDefinition): SchemaDiff => {
+    const changes: SchemaChange[] = [];
+
+    for (const newModel of newSchema.getModels()) {
+        const oldModel = oldSchema.models[newModel.name];
+
+        if (!oldModel) {
+            changes.push({
+                type: 'CLASS_ADDED',
+                model: newModel.name,
+                breaking: false,
+                description: `${newModel.name}: added class`,
+            });
+        } else {
+            changes.push(...compareClass(newSchema, oldModel, newModel));
+        }
+    }
+
+    for (const oldModel of oldSchema.getModels()) {
+        if (!newSchema.models[oldModel.name]) {
+            changes.push({
+                type: 'CLASS_REMOVED',
+                model: oldModel.name,
+                breaking: true,
+                description: `${oldModel.name}: removed class`,
+            });
+        }
+    }
+    return { changes, breaking: changes.some((change) => change.breaking) };
+};
+
+/**
+ * Create a markdown summary of the schema changes for use in release notes
+ */
+const formatSchemaDiff = (diff: SchemaDiff): string => {
+    const sections: string[] = [];
+    const breaking = diff.changes.filter((change) => change.breaking);
+    const compatible = diff.changes.filter((change) => !change.breaking);
+
+    if (breaking.length) {
+        sections.push(['### Breaking Changes', '', ...breaking.map((change) => `- ${change.description}`)].join('\n'));
+    }
+    if (compatible.length) {
+        sections.push(['### Compatible Changes', '', ...compatible.map((change) => `- ${change.description}`)].join('\n'));
+    }
+    if (!sections.length) {
+        return 'No schema changes';
+    }
+    return sections.join('\n\n');
+};
+
+export {
+    compareSchemas,
+    formatSchemaDiff,
+};
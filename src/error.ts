@@ -3,8 +3,90 @@
  */
 import { ErrorMixin } from '@bcgsc-pori/graphkb-parser';
 
-class ValidationError extends ErrorMixin {}
+import { RecordValidationFailure, ValidationErrorCode } from './types';
+
+interface ValidationErrorContent {
+    code?: ValidationErrorCode;
+    /** name of the property which failed validation */
+    field?: string;
+    /** name of the class/model being validated */
+    model?: string;
+    /** name of the constraint which was violated (ex. mandatory, pattern, minimum) */
+    constraint?: string;
+    /** the value of the constraint which was violated (ex. the pattern or the minimum) */
+    constraintValue?: unknown;
+    /** the offending value */
+    value?: unknown;
+    /** the error this error was created from (ex. the error thrown by a generateDefault function) */
+    cause?: ValidationError;
+    [key: string]: unknown;
+}
+
+/**
+ * @property {string} code machine-readable error code (ex. PATTERN_MISMATCH)
+ * @property {string} field the property which failed validation
+ * @property {string} model the class/model being validated
+ * @property {string} constraint the name of the violated constraint
+ * @property constraintValue the value of the violated constraint
+ * @property value the offending value
+ * @property cause the error this error was created from
+ */
+class ValidationError extends ErrorMixin {
+    get code(): ValidationErrorCode {
+        return (this.content as ValidationErrorContent).code || 'VALIDATION_ERROR';
+    }
+
+    get field(): string | undefined {
+        return (this.content as ValidationErrorContent).field;
+    }
+
+    get model(): string | undefined {
+        return (this.content as ValidationErrorContent).model;
+    }
+
+    get constraint(): string | undefined {
+        return (this.content as ValidationErrorContent).constraint;
+    }
+
+    get constraintValue(): unknown {
+        return (this.content as ValidationErrorContent).constraintValue;
+    }
+
+    get value(): unknown {
+        return (this.content as ValidationErrorContent).value;
+    }
+
+    get cause(): ValidationError | undefined {
+        return (this.content as ValidationErrorContent).cause;
+    }
+
+    /**
+     * @return {Object} the JSON representation of this error, always including the structured fields. The
+     * content is decycled by the parent class. The stack trace is not included since this is intended for API responses
+     */
+    toJSON() {
+        const { stacktrace, ...json }: Record<string, unknown> = super.toJSON();
+        return {
+            ...json,
+            code: this.code,
+            field: this.field ?? null,
+            model: this.model ?? null,
+            constraint: this.constraint ?? null,
+            constraintValue: json.constraintValue ?? null,
+            value: json.value ?? null,
+        };
+    }
+}
+
+/**
+ * Collection of all the validation failures found in a record
+ */
+class AggregateValidationError extends ValidationError {
+    get errors(): RecordValidationFailure[] {
+        return (this.content as { errors?: RecordValidationFailure[] }).errors || [];
+    }
+}
 
 export {
-    ValidationError, ErrorMixin,
+    AggregateValidationError, ValidationError, ErrorMixin,
 };
@@ -0,0 +1,192 @@
+/**
+ * Compute the identity of a record from its unique indices so that duplicates can be found without the database
+ * @module identity
+ */
+import { IndexType, PropertyDefinition, UniqueIndexViolation } from './types';
+import { GraphRecordId } from './constants';
+import { ValidationError } from './error';
+import { recordId } from './util';
+import type { SchemaDefinition } from './schema';
+
+/** property types whose values are unordered */
+const SET_TYPES = ['embeddedset', 'linkset'];
+
+/**
+ * convert embedded values to plain values with their keys sorted so that equivalent objects serialize identically
+ */
+const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (!value || typeof value !== 'object' || value instanceof GraphRecordId) {
+        return value ?? null;
+    }
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(value).sort()) {
+        const nested = (value as Record<string, unknown>)[key];
+
+        if (nested !== undefined && nested !== null) {
+            result[key] = sortKeys(nested);
+        }
+    }
+    return result;
+};
+
+/**
+ * the canonical form of a single property value. Links are replaced by their record ID (whether or not they
+ * are expanded), sets are sorted and missing values are null
+ */
+const normalizeValue = (prop: PropertyDefinition, value: unknown): unknown => {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    const normalizeItem = (item: unknown) => (prop.type.startsWith('link')
+        ? recordId(item)
+        : sortKeys(item));
+
+    if (!prop.iterable) {
+        return normalizeItem(value);
+    }
+    const items = (Array.isArray(value)
+        ? value
+        : [value]).map(normalizeItem);
+
+    if (SET_TYPES.includes(prop.type)) {
+        // sort by the serialized value so that items of mixed types are still ordered consistently
+        items.sort((item1, item2) => JSON.stringify(item1).localeCompare(JSON.stringify(item2)));
+    }
+    return items;
+};
+
+/**
+ * the normalized values of some properties of a record
+ */
+const canonicalValues = (
+    schema: SchemaDefinition,
+    modelName: string,
+    propertyNames: string[],
+    record: Record<string, unknown>,
+): Record<string, unknown> => {
+    const properties = schema.getProperties(modelName);
+    const canonical: Record<string, unknown> = {};
+
+    for (const name of propertyNames) {
+        canonical[name] = properties[name]
+            ? normalizeValue(properties[name], record[name])
+            : sortKeys(record[name]);
+    }
+    return canonical;
+};
+
+/**
+ * Create the canonical identity key of a record from the properties of the unique active index of its class.
+ * Two records with the same key would violate the index. The record should be formatted (see formatRecord)
+ * first so that cast values (ex. upper-cased sequences) match
+ *
+ * @param schema the schema definition
+ * @param modelName the class of the record
+ * @param record the record to create the key for
+ *
+ * @throws {ValidationError} when the class does not have an active index
+ *
+ * @example
+ * > identityKey(schema, 'CategoryVariant', { reference1: { '@rid': '#33:1' }, type: '34:1' })
+ * 'CategoryVariant{"deletedAt":null,"germline":null,"reference1":"#33:1","reference2":null,"type":"#34:1","zygosity":null}'
+ */
+const identityKey = (schema: SchemaDefinition, modelName: string, record: Record<string, unknown>): string => {
+    const model = schema.get(modelName);
+    const active = schema.activeProperties(model.name);
+
+    if (!active) {
+        throw new ValidationError({
+            message: `Unable to create the identity key. The class ${model.name} does not have an active index`,
+            model: model.name,
+        });
+    }
+    return `${model.name}${JSON.stringify(canonicalValues(schema, model.name, active.slice().sort(), record))}`;
+};
+
+/**
+ * Hash the identity key of a record into a short string (53-bit, hexadecimal). Records with the same hash
+ * should be compared by their identity key before being considered duplicates
+ *
+ * @param schema the schema definition
+ * @param modelName the class of the record
+ * @param record the record to create the hash for
+ */
+const identityHash = (schema: SchemaDefinition, modelName: string, record: Record<string, unknown>): string => {
+    const key = identityKey(schema, modelName, record);
+    let h1 = 0xdeadbeef,
+        h2 = 0x41c6ce57;
+
+    for (let i = 0; i < key.length; i++) {
+        const char = key.charCodeAt(i);
+        h1 = Math.imul(h1 ^ char, 2654435761);
+        h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Find the records which violate any of the UNIQUE indices of their classes (including the indices inherited
+ * from parent classes). As in OrientDB, when an index ignores null values, records with null for all of the
+ * indexed properties are not indexed. The records should be formatted (see formatRecord) first
+ *
+ * @param schema the schema definition
+ * @param records the records to check. Each must include its @class
+ *
+ * @throws {ValidationError} when a record does not have a known @class
+ *
+ * @example
+ * > checkUniqueIndices(schema, [
+ *     { '@class': 'User', name: 'alice', email: 'alice@example.com' },
+ *     { '@class': 'User', name: 'bob', email: 'alice@example.com' },
+ * ])
+ * [{ index: 'ActiveUserEmail', model: 'User', records: [0, 1], ... }]
+ */
+const checkUniqueIndices = (schema: SchemaDefinition, records: Record<string, unknown>[]): UniqueIndexViolation[] => {
+    const seen: Record<string, { index: IndexType; values: Record<string, unknown>; records: number[] }> = {};
+
+    records.forEach((record, position) => {
+        const model = schema.get(record);
+        const indices = [model.name, ...schema.ancestors(model.name)]
+            .reduce((acc, name) => [...acc, ...schema.get(name).indices], [] as IndexType[])
+            .filter((index) => index.type === 'UNIQUE');
+
+        for (const index of indices) {
+            const values = canonicalValues(schema, model.name, index.properties, record);
+
+            if (index.metadata?.ignoreNullValues && Object.values(values).every((value) => value === null)) {
+                continue;
+            }
+            const key = `${index.name}${JSON.stringify(values)}`;
+
+            if (!seen[key]) {
+                seen[key] = { index, values, records: [] };
+            }
+            seen[key].records.push(position);
+        }
+    });
+
+    return Object.values(seen)
+        .filter((entry) => entry.records.length > 1)
+        .map(({ index, values, records: positions }) => ({
+            index: index.name,
+            model: index.class,
+            properties: index.properties,
+            values,
+            records: positions,
+            message: `records [${positions.join(', ')}] have the same values for the unique index ${index.name} (${
+                index.properties.map((name) => `${name}=${JSON.stringify(values[name])}`).join(', ')
+            })`,
+        }));
+};
+
+export {
+    checkUniqueIndices,
+    identityHash,
+    identityKey,
+};
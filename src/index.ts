@@ -7,15 +7,62 @@ import {
     ClassName,
     DbType,
     ClassPermissions,
+    AccessUser,
+    AccessUserGroup,
+    EffectivePermissions,
+    PermissionDecision,
+    PermissionMatrixRow,
+    PositionRange,
+    PositionRecord,
+    RecordAccess,
     GraphRecord,
     IndexType,
+    MigrationPlan,
+    MigrationStep,
+    RecordUpdate,
+    RecordValidationFailure,
+    RouteDefinition,
+    SchemaChange,
+    SchemaDiff,
+    SchemaObject,
+    SentenceCatalogue,
+    SentenceSlotToken,
+    SentenceTemplate,
+    SentenceTemplateArgs,
+    SentenceTextToken,
+    SentenceToken,
+    StatementCategory,
+    StatementRule,
+    TemplateKeyNode,
+    TemplateNode,
+    TemplateRule,
+    TemplateRuleContext,
+    TemplateTextNode,
+    UniqueIndexViolation,
 } from './types';
 import { validateProperty } from './property';
 import * as util from './util';
-import { ValidationError, ErrorMixin } from './error';
+import { ValidationError, AggregateValidationError, ErrorMixin } from './error';
 import * as constants from './constants';
 import { REVIEW_STATUS, PERMISSIONS } from './constants';
+import * as sentenceCatalogues from './sentenceCatalogues';
 import * as sentenceTemplates from './sentenceTemplates';
+import * as templateRules from './templateRules';
+import * as openapi from './openapi';
+import * as routes from './routes';
+import * as jsonSchema from './jsonSchema';
+import * as typings from './typings';
+import * as diff from './diff';
+import * as ddl from './ddl';
+import * as migration from './migration';
+import * as permissions from './permissions';
+import * as permissionMatrix from './permissionMatrix';
+import * as variantNotation from './variantNotation';
+import * as positions from './positions';
+import * as identity from './identity';
+import * as reviewStatus from './reviewStatus';
+import * as statementRules from './statementRules';
+import * as records from './records';
 import definitions from './definitions';
 import { SchemaDefinition } from './schema';
 
@@ -30,19 +77,67 @@ export type {
     ClassName,
     DbType,
     ClassPermissions,
+    AccessUser,
+    AccessUserGroup,
+    EffectivePermissions,
+    PermissionDecision,
+    PermissionMatrixRow,
+    PositionRange,
+    PositionRecord,
+    RecordAccess,
     GraphRecord,
     IndexType,
+    MigrationPlan,
+    MigrationStep,
+    RecordUpdate,
+    RecordValidationFailure,
+    RouteDefinition,
+    SchemaChange,
+    SchemaDiff,
+    SchemaObject,
+    SentenceCatalogue,
+    SentenceSlotToken,
+    SentenceTemplate,
+    SentenceTemplateArgs,
+    SentenceTextToken,
+    SentenceToken,
+    StatementCategory,
+    StatementRule,
+    TemplateKeyNode,
+    TemplateNode,
+    TemplateRule,
+    TemplateRuleContext,
+    TemplateTextNode,
+    UniqueIndexViolation,
 };
 
 export {
     schemaDef as schema,
     util,
     ValidationError,
+    AggregateValidationError,
     ErrorMixin,
     REVIEW_STATUS,
     constants,
     PERMISSIONS,
+    sentenceCatalogues,
     sentenceTemplates,
+    templateRules,
+    openapi,
+    routes,
+    jsonSchema,
+    typings,
+    diff,
+    ddl,
+    migration,
+    permissions,
+    permissionMatrix,
+    variantNotation,
+    positions,
+    identity,
+    reviewStatus,
+    statementRules,
+    records,
     SchemaDefinition,
     validateProperty,
 };
@@ -0,0 +1,209 @@
+/**
+ * Generate standalone JSON Schema (draft 2020-12) documents from the schema definitions
+ * @module jsonSchema
+ */
+import { PropertyDefinition, SchemaObject } from './types';
+import { RID_PATTERN } from './constants';
+import type { SchemaDefinition } from './schema';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const defRef = (name: string) => `#/$defs/${name}`;
+
+/**
+ * allow null in addition to the values already accepted by a schema
+ */
+const allowNull = (schema: SchemaObject): SchemaObject => {
+    if (typeof schema.type !== 'string' && !schema.enum) {
+        return { anyOf: [schema, { type: 'null' }] };
+    }
+    const result = { ...schema };
+
+    // both the type and the enum must accept null
+    if (typeof schema.type === 'string') {
+        result.type = [schema.type, 'null'];
+    }
+    if (schema.enum) {
+        result.enum = [...schema.enum as unknown[], null];
+    }
+    return result;
+};
+
+/**
+ * Builds the JSON schema for a class, collecting the definitions of any embedded classes it uses
+ */
+class JsonSchemaBuilder {
+    readonly schema: SchemaDefinition;
+    readonly defs: Record<string, SchemaObject>;
+
+    constructor(schema: SchemaDefinition) {
+        this.schema = schema;
+        this.defs = {};
+    }
+
+    /**
+     * add the definition for an embedded class (and its dependencies) to $defs
+     */
+    addDefinition(modelName: string, discriminated = false): void {
+        if (this.defs[modelName] !== undefined) {
+            return;
+        }
+        this.defs[modelName] = {}; // placeholder to avoid infinite recursion
+        const definition = this.classSchema(modelName);
+
+        if (discriminated) {
+            const properties = definition.properties as SchemaObject;
+            properties['@class'] = { const: modelName };
+            definition.required = [...(definition.required as string[] || []), '@class'];
+        }
+        this.defs[modelName] = definition;
+    }
+
+    embeddedSchema(linkedClass: string): SchemaObject {
+        const concrete = this.schema.descendants(linkedClass, { excludeAbstract: true, includeSelf: true });
+
+        if (concrete.length === 1 && concrete[0] === linkedClass) {
+            this.addDefinition(linkedClass);
+            return { $ref: defRef(linkedClass) };
+        }
+        concrete.forEach((name) => this.addDefinition(name, true));
+        return { oneOf: concrete.map((name) => ({ $ref: defRef(name) })) };
+    }
+
+    /**
+     * schema for a single (non-iterable) value of a property
+     */
+    valueSchema(prop: PropertyDefinition): SchemaObject {
+        let result: SchemaObject;
+
+        if (prop.type === 'integer' || prop.type === 'long') {
+            result = { type: 'integer' };
+        } else if (prop.type === 'boolean') {
+            result = { type: 'boolean' };
+        } else if (prop.type.includes('link')) {
+            result = { type: 'string', pattern: RID_PATTERN };
+        } else if (prop.type.startsWith('embedded')) {
+            if (prop.linkedClass) {
+                result = this.embeddedSchema(prop.linkedClass);
+            } else if (prop.linkedType) {
+                result = { type: prop.linkedType };
+            } else if (prop.iterable) {
+                result = {};
+            } else {
+                result = { type: 'object' };
+            }
+        } else {
+            result = { type: 'string' };
+
+            if (prop.nonEmpty) {
+                result.minLength = 1;
+            }
+        }
+
+        if (prop.choices) {
+            result.enum = prop.choices;
+        }
+        if (prop.pattern && !prop.type.includes('link')) {
+            result.pattern = prop.pattern;
+        }
+        if (prop.minimum !== undefined) {
+            result.minimum = prop.minimum;
+        }
+        if (prop.maximum !== undefined) {
+            result.maximum = prop.maximum;
+        }
+
+        if (prop.nullable) {
+            return allowNull(result);
+        }
+        return result;
+    }
+
+    propertySchema(prop: PropertyDefinition): SchemaObject {
+        let result = this.valueSchema(prop);
+
+        if (prop.iterable) {
+            result = { type: 'array', items: result };
+
+            if (prop.type === 'embeddedset' || prop.type === 'linkset') {
+                result.uniqueItems = true;
+            }
+            if (prop.minItems !== undefined) {
+                result.minItems = prop.minItems;
+            }
+            if (prop.maxItems !== undefined) {
+                result.maxItems = prop.maxItems;
+            }
+            if (prop.nullable) {
+                result = allowNull(result);
+            }
+        }
+
+        if (prop.description) {
+            result.description = prop.description;
+        }
+        if (prop.default !== undefined) {
+            result.default = prop.default;
+        }
+        if (prop.examples && prop.examples.length) {
+            result.examples = prop.examples;
+        }
+        if (prop.readOnly) {
+            result.readOnly = true;
+        }
+        if (prop.generated) {
+            result['x-generated'] = true;
+        }
+        return result;
+    }
+
+    /**
+     * the object schema for a class, properties inherited from parent classes are included directly
+     */
+    classSchema(modelName: string): SchemaObject {
+        const model = this.schema.get(modelName);
+        const properties: Record<string, SchemaObject> = {};
+        const required: string[] = [];
+
+        for (const prop of Object.values(this.schema.getProperties(model.name))) {
+            properties[prop.name] = this.propertySchema(prop);
+
+            // properties which formatRecord will fill in are not required as input
+            if (prop.mandatory && prop.default === undefined && !prop.generateDefault) {
+                required.push(prop.name);
+            }
+        }
+        const result: SchemaObject = { type: 'object', properties };
+
+        if (model.description) {
+            result.description = model.description;
+        }
+        if (required.length) {
+            result.required = required;
+        }
+        return result;
+    }
+}
+
+/**
+ * Create a standalone JSON Schema (draft 2020-12) document for validating records of a given class
+ */
+const generateJsonSchema = (schema: SchemaDefinition, modelName: string): SchemaObject => {
+    const model = schema.get(modelName);
+    const builder = new JsonSchemaBuilder(schema);
+    const result: SchemaObject = {
+        $schema: JSON_SCHEMA_DIALECT,
+        title: model.name,
+        ...builder.classSchema(model.name),
+    };
+
+    if (Object.keys(builder.defs).length) {
+        result.$defs = builder.defs;
+    }
+    return result;
+};
+
+export {
+    generateJsonSchema,
+    JSON_SCHEMA_DIALECT,
+};
@@ -0,0 +1,339 @@
+/**
+ * Plan the OrientDB statements required to migrate a database from one version of the schema to another
+ * @module migration
+ */
+import {
+    ClassDefinition,
+    IndexType,
+    MigrationPlan,
+    MigrationStep,
+    MigrationStepType,
+    PropertyDefinition,
+} from './types';
+import {
+    createClassStatement,
+    createIndexStatement,
+    createPropertyStatements,
+    isStoredProperty,
+    propertyConstraints,
+    quote,
+} from './ddl';
+import { compareSchemas } from './diff';
+import type { SchemaDefinition } from './schema';
+
+/**
+ * the order steps must be applied in. Indices are dropped before the properties they cover are
+ * changed and re-created after
+ */
+const MIGRATION_STEP_ORDER: MigrationStepType[] = [
+    'CREATE_CLASS',
+    'ALTER_CLASS',
+    'DROP_INDEX',
+    'ADD_PROPERTY',
+    'ALTER_PROPERTY',
+    'CREATE_INDEX',
+    'DROP_PROPERTY',
+    'DROP_CLASS',
+];
+
+/** the value used to remove each of the ALTER PROPERTY constraints */
+const UNSET_CONSTRAINT = {
+    MANDATORY: 'FALSE',
+    NOTNULL: 'FALSE',
+    MIN: 'NULL',
+    MAX: 'NULL',
+    REGEXP: 'NULL',
+};
+
+const literal = (value: unknown) => (typeof value === 'string'
+    ? quote(value)
+    : JSON.stringify(value));
+
+/**
+ * class names in the order they should be created
+ */
+const creationOrder = (schema: SchemaDefinition): string[] => schema.splitClassLevels()
+    .reduce((acc, level) => [...acc, ...level.slice().sort()], [] as string[])
+    .filter((name) => schema.has(name));
+
+/**
+ * Create the statements to fill in a value for existing records before a property is made mandatory or not-null
+ *
+ * @returns the statements to run and a warning when the value cannot be filled in automatically
+ */
+const backfill = (modelName: string, prop: PropertyDefinition): { statements: string[]; warning?: string } => {
+    if (!prop.mandatory && prop.nullable) {
+        return { statements: [] };
+    }
+    if (prop.default !== undefined) {
+        return { statements: [`UPDATE ${modelName} SET ${prop.name} = ${literal(prop.default)} WHERE ${prop.name} IS NULL`] };
+    }
+    const constraint = prop.mandatory
+        ? 'mandatory'
+        : 'not null';
+    return {
+        statements: [],
+        warning: `existing ${modelName} records must be backfilled with a value for ${prop.name} before it can be made ${constraint}`,
+    };
+};
+
+const createStep = (step: Omit<MigrationStep, 'warning'>, warnings: string[] = []): MigrationStep => {
+    if (warnings.length) {
+        return { ...step, warning: warnings.join('; ') };
+    }
+    return step;
+};
+
+const addPropertyStep = (modelName: string, prop: PropertyDefinition, existingClass: boolean): MigrationStep => {
+    const [create, ...constraints] = createPropertyStatements(modelName, prop);
+    const fill = existingClass
+        ? backfill(modelName, prop)
+        : { statements: [] };
+    return createStep({
+        type: 'ADD_PROPERTY',
+        model: modelName,
+        property: prop.name,
+        statements: [create, ...fill.statements, ...constraints],
+        description: `add the property ${modelName}.${prop.name}`,
+    }, fill.warning
+        ? [fill.warning]
+        : []);
+};
+
+/**
+ * Create the step to change an existing property to match its new definition
+ *
+ * @returns null when there are no database-level changes to the property
+ */
+const alterPropertyStep = (
+    modelName: string,
+    oldProp: PropertyDefinition,
+    newProp: PropertyDefinition,
+): MigrationStep | null => {
+    const name = `${modelName}.${newProp.name}`;
+    const statements: string[] = [];
+    const warnings: string[] = [];
+
+    if (oldProp.type !== newProp.type) {
+        statements.push(`ALTER PROPERTY ${name} TYPE ${newProp.type.toUpperCase()}`);
+        warnings.push(`existing values of ${name} must be converted from ${oldProp.type} to ${newProp.type}`);
+    }
+    if (oldProp.linkedClass !== newProp.linkedClass) {
+        statements.push(`ALTER PROPERTY ${name} LINKEDCLASS ${newProp.linkedClass || 'NULL'}`);
+    } else if (!newProp.linkedClass && oldProp.linkedType !== newProp.linkedType) {
+        statements.push(`ALTER PROPERTY ${name} LINKEDTYPE ${(newProp.linkedType || 'NULL').toUpperCase()}`);
+    }
+    const oldConstraints = propertyConstraints(oldProp);
+    const newConstraints = propertyConstraints(newProp);
+
+    if (
+        (newConstraints.MANDATORY && !oldConstraints.MANDATORY)
+        || (newConstraints.NOTNULL && !oldConstraints.NOTNULL)
+    ) {
+        const fill = backfill(modelName, newProp);
+        statements.push(...fill.statements);
+
+        if (fill.warning) {
+            warnings.push(fill.warning);
+        }
+    }
+
+    for (const [constraint, unset] of Object.entries(UNSET_CONSTRAINT)) {
+        if (oldConstraints[constraint] !== newConstraints[constraint]) {
+            statements.push(`ALTER PROPERTY ${name} ${constraint} ${newConstraints[constraint] ?? unset}`);
+        }
+    }
+
+    if (!statements.length) {
+        return null;
+    }
+    return createStep({
+        type: 'ALTER_PROPERTY',
+        model: modelName,
+        property: newProp.name,
+        statements,
+        description: `change the property ${name}`,
+    }, warnings);
+};
+
+const createIndexStep = (index: IndexType, existingClass: boolean): MigrationStep => createStep({
+    type: 'CREATE_INDEX',
+    model: index.class,
+    index: index.name,
+    statements: [createIndexStatement(index)],
+    description: `create the ${index.type} index ${index.name}`,
+}, existingClass && index.type === 'UNIQUE'
+    ? [`existing ${index.class} records must not have duplicate values for (${index.properties.join(', ')})`]
+    : []);
+
+const dropIndexStep = (index: IndexType): MigrationStep => ({
+    type: 'DROP_INDEX',
+    model: index.class,
+    index: index.name,
+    statements: [`DROP INDEX ${index.name}`],
+    description: `drop the index ${index.name}`,
+});
+
+const alterClassSteps = (oldModel: ClassDefinition, newModel: ClassDefinition): MigrationStep[] => {
+    const steps: MigrationStep[] = [];
+    const { name } = newModel;
+
+    if (oldModel.inherits.join() !== newModel.inherits.join()) {
+        const superClasses = newModel.isEdge && !newModel.inherits.length
+            ? ['E']
+            : newModel.inherits;
+        steps.push({
+            type: 'ALTER_CLASS',
+            model: name,
+            statements: [`ALTER CLASS ${name} SUPERCLASSES ${superClasses.join(', ') || 'NULL'}`],
+            description: `change the parent classes of ${name}`,
+        });
+    }
+    if (oldModel.isAbstract !== newModel.isAbstract) {
+        steps.push(createStep({
+            type: 'ALTER_CLASS',
+            model: name,
+            statements: [`ALTER CLASS ${name} ABSTRACT ${newModel.isAbstract
+                ? 'TRUE'
+                : 'FALSE'}`],
+            description: `make ${name} ${newModel.isAbstract
+                ? 'abstract'
+                : 'concrete'}`,
+        }, newModel.isAbstract
+            ? [`existing ${name} records must be moved to a subclass or deleted`]
+            : []));
+    }
+    return steps;
+};
+
+/**
+ * Create the ordered list of steps required to migrate a database from the old schema to the new schema.
+ *
+ * Permissions are not stored in the database and so changes to them do not create migration steps
+ *
+ * @param oldSchema the schema the database currently uses
+ * @param newSchema the schema to migrate the database to
+ */
+const planMigration = (oldSchema: SchemaDefinition, newSchema: SchemaDefinition): MigrationPlan => {
+    const { changes } = compareSchemas(oldSchema, newSchema);
+    const steps: MigrationStep[] = [];
+    const added = new Set(changes.filter((c) => c.type === 'CLASS_ADDED').map((c) => c.model));
+    const removed = new Set(changes.filter((c) => c.type === 'CLASS_REMOVED').map((c) => c.model));
+    const droppedIndices = new Set<string>();
+
+    const findIndex = (schema: SchemaDefinition, modelName: string, indexName?: string) => schema.get(modelName)
+        .indices.find((index) => index.name === indexName) as IndexType;
+
+    for (const name of creationOrder(newSchema).filter((n) => added.has(n))) {
+        const model = newSchema.get(name);
+        steps.push({
+            type: 'CREATE_CLASS',
+            model: name,
+            statements: [createClassStatement(model)],
+            description: `create the class ${name}`,
+        });
+
+        for (const prop of Object.values(model.properties).filter(isStoredProperty)) {
+            steps.push(addPropertyStep(name, prop, false));
+        }
+        steps.push(...model.indices.map((index) => createIndexStep(index, false)));
+    }
+
+    for (const name of Array.from(new Set(changes.filter((c) => c.type === 'CLASS_CHANGED').map((c) => c.model)))) {
+        steps.push(...alterClassSteps(oldSchema.get(name), newSchema.get(name)));
+    }
+
+    for (const change of changes) {
+        const { model: modelName, property: propName } = change;
+
+        if (change.type === 'PROPERTY_ADDED' && propName) {
+            const prop = newSchema.get(modelName).properties[propName];
+
+            if (isStoredProperty(prop)) {
+                steps.push(addPropertyStep(modelName, prop, true));
+            }
+        } else if (change.type === 'PROPERTY_REMOVED' && propName && isStoredProperty(oldSchema.get(modelName).properties[propName])) {
+            steps.push({
+                type: 'DROP_PROPERTY',
+                model: modelName,
+                property: propName,
+                statements: [`DROP PROPERTY ${modelName}.${propName}`],
+                description: `drop the property ${modelName}.${propName}`,
+            });
+        } else if (change.type === 'INDEX_ADDED') {
+            steps.push(createIndexStep(findIndex(newSchema, modelName, change.index), true));
+        } else if (change.type === 'INDEX_REMOVED' || change.type === 'INDEX_CHANGED') {
+            droppedIndices.add(change.index as string);
+            steps.push(dropIndexStep(findIndex(oldSchema, modelName, change.index)));
+
+            if (change.type === 'INDEX_CHANGED') {
+                steps.push(createIndexStep(findIndex(newSchema, modelName, change.index), true));
+            }
+        }
+    }
+
+    // properties are compared directly since the database constraints (ex. pattern, minimum) are not all part of the diff
+    for (const oldModel of oldSchema.getModels().filter((m) => !removed.has(m.name))) {
+        const newModel = newSchema.get(oldModel.name);
+
+        for (const [propName, oldProp] of Object.entries(oldModel.properties)) {
+            const newProp = newModel.properties[propName];
+
+            if (!newProp || !isStoredProperty(newProp)) {
+                continue;
+            }
+            const step = alterPropertyStep(newModel.name, oldProp, newProp);
+
+            if (!step) {
+                continue;
+            }
+            steps.push(step);
+
+            // indices covering the property must be re-built
+            for (const model of oldSchema.getModels().filter((m) => !removed.has(m.name))) {
+                for (const index of model.indices) {
+                    if (
+                        !droppedIndices.has(index.name)
+                        && index.properties.includes(propName)
+                        && (index.class === oldModel.name || oldSchema.inheritsFrom(index.class, oldModel.name))
+                    ) {
+                        droppedIndices.add(index.name);
+                        steps.push(dropIndexStep(index));
+                        steps.push(createIndexStep(findIndex(newSchema, model.name, index.name), true));
+                    }
+                }
+            }
+        }
+    }
+
+    for (const name of creationOrder(oldSchema).reverse().filter((n) => removed.has(n))) {
+        steps.push({
+            type: 'DROP_CLASS',
+            model: name,
+            statements: [`DROP CLASS ${name} UNSAFE`],
+            description: `drop the class ${name}`,
+            warning: `all existing ${name} records will be deleted`,
+        });
+    }
+
+    // sort is stable so steps of the same type keep the order they were added in
+    steps.sort((step1, step2) => MIGRATION_STEP_ORDER.indexOf(step1.type) - MIGRATION_STEP_ORDER.indexOf(step2.type));
+
+    return {
+        steps,
+        warnings: steps.filter((step) => step.warning).map((step) => `${step.description}: ${step.warning}`),
+    };
+};
+
+/**
+ * Create an OrientDB SQL script (one statement per line) from a migration plan
+ */
+const generateMigrationScript = (plan: MigrationPlan): string => plan.steps
+    .map((step) => step.statements.map((statement) => `${statement};\n`).join(''))
+    .join('');
+
+export {
+    generateMigrationScript,
+    MIGRATION_STEP_ORDER,
+    planMigration,
+};
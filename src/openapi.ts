@@ -0,0 +1,204 @@
+/**
+ * Generate OpenAPI 3 specification content from the schema definitions
+ * @module openapi
+ */
+import { PropertyDefinition, ClassDefinition, SchemaObject } from './types';
+import { RID_PATTERN } from './constants';
+import type { SchemaDefinition } from './schema';
+
+const RECORD_ID_NAME = 'RecordId';
+
+const schemaRef = (name: string) => `#/components/schemas/${name}`;
+
+const RECORD_ID_SCHEMA: SchemaObject = {
+    type: 'string',
+    pattern: RID_PATTERN,
+    description: 'The record identifier',
+    example: '#44:0',
+};
+
+/**
+ * add keywords to a schema, wrapping it when it is a reference (siblings of $ref are ignored in OpenAPI 3.0)
+ */
+const extendSchema = (base: SchemaObject, extra: SchemaObject): SchemaObject => {
+    if (Object.keys(extra).length === 0) {
+        return base;
+    }
+    if (base.$ref) {
+        return { allOf: [base], ...extra };
+    }
+    return { ...base, ...extra };
+};
+
+/**
+ * schema for a link to another record. Links may be given as the record ID or the expanded record
+ */
+const linkSchema = (linkedClass?: string): SchemaObject => {
+    if (!linkedClass) {
+        return { $ref: schemaRef(RECORD_ID_NAME) };
+    }
+    return { anyOf: [{ $ref: schemaRef(RECORD_ID_NAME) }, { $ref: schemaRef(linkedClass) }] };
+};
+
+/**
+ * schema for an embedded record. When the linked class has subclasses (ex. Position) this
+ * is a oneOf on the concrete subclasses discriminated by the @class property
+ */
+const embeddedSchema = (schema: SchemaDefinition, linkedClass: string): SchemaObject => {
+    const concrete = schema.descendants(linkedClass, { excludeAbstract: true, includeSelf: true });
+
+    if (concrete.length === 1 && concrete[0] === linkedClass) {
+        return { $ref: schemaRef(linkedClass) };
+    }
+    const mapping = {};
+    concrete.forEach((name) => {
+        mapping[name] = schemaRef(name);
+    });
+    return {
+        oneOf: concrete.map((name) => ({ $ref: schemaRef(name) })),
+        discriminator: { propertyName: '@class', mapping },
+    };
+};
+
+/**
+ * schema for a single (non-iterable) value of a property
+ */
+const valueSchema = (schema: SchemaDefinition, prop: PropertyDefinition): SchemaObject => {
+    let result: SchemaObject;
+
+    if (prop.type === 'integer') {
+        result = { type: 'integer' };
+    } else if (prop.type === 'long') {
+        result = { type: 'integer', format: 'int64' };
+    } else if (prop.type === 'boolean') {
+        result = { type: 'boolean' };
+    } else if (prop.type.includes('link')) {
+        result = linkSchema(prop.linkedClass);
+    } else if (prop.type.startsWith('embedded')) {
+        if (prop.linkedClass) {
+            result = embeddedSchema(schema, prop.linkedClass);
+        } else if (prop.linkedType) {
+            result = { type: prop.linkedType };
+        } else if (prop.iterable) {
+            result = {};
+        } else {
+            result = { type: 'object' };
+        }
+    } else {
+        result = { type: 'string' };
+
+        if (prop.format) {
+            result.format = prop.format;
+        }
+        if (prop.nonEmpty) {
+            result.minLength = 1;
+        }
+    }
+    const constraints: SchemaObject = {};
+
+    if (prop.choices) {
+        constraints.enum = prop.choices;
+    }
+    if (prop.pattern) {
+        constraints.pattern = prop.pattern;
+    }
+    if (prop.minimum !== undefined) {
+        constraints.minimum = prop.minimum;
+    }
+    if (prop.maximum !== undefined) {
+        constraints.maximum = prop.maximum;
+    }
+    return extendSchema(result, constraints);
+};
+
+/**
+ * Convert a property definition to the equivalent OpenAPI schema object
+ */
+const propertyToOpenApi = (schema: SchemaDefinition, prop: PropertyDefinition): SchemaObject => {
+    let result = valueSchema(schema, prop);
+
+    if (prop.iterable) {
+        result = { type: 'array', items: result };
+
+        if (prop.type === 'embeddedset' || prop.type === 'linkset') {
+            result.uniqueItems = true;
+        }
+        if (prop.minItems !== undefined) {
+            result.minItems = prop.minItems;
+        }
+        if (prop.maxItems !== undefined) {
+            result.maxItems = prop.maxItems;
+        }
+    }
+    const extra: SchemaObject = {};
+
+    if (prop.description) {
+        extra.description = prop.description;
+    }
+    if (prop.nullable) {
+        extra.nullable = true;
+    }
+    if (prop.readOnly || prop.generated) {
+        extra.readOnly = true;
+    }
+    if (prop.default !== undefined) {
+        extra.default = prop.default;
+    }
+    if (prop.examples && prop.examples.length) {
+        const [example] = prop.examples;
+        extra.example = prop.iterable && !Array.isArray(example)
+            ? [example]
+            : example;
+    }
+    return extendSchema(result, extra);
+};
+
+/**
+ * Convert a class definition to an OpenAPI schema object. Inherited properties are referenced
+ * through allOf rather than repeated
+ */
+const classToOpenApi = (schema: SchemaDefinition, model: ClassDefinition): SchemaObject => {
+    const properties = {};
+    const required: string[] = [];
+
+    for (const prop of Object.values(model.properties)) {
+        properties[prop.name] = propertyToOpenApi(schema, prop);
+
+        if (prop.mandatory) {
+            required.push(prop.name);
+        }
+    }
+    const body: SchemaObject = { type: 'object', properties };
+
+    if (required.length) {
+        body.required = required;
+    }
+
+    if (model.inherits.length === 0) {
+        return { ...body, description: model.description };
+    }
+    return {
+        description: model.description,
+        allOf: [...model.inherits.map((parent) => ({ $ref: schemaRef(parent) })), body],
+    };
+};
+
+/**
+ * Create the content of components.schemas for an OpenAPI 3 specification
+ */
+const generateComponentSchemas = (schema: SchemaDefinition): Record<string, SchemaObject> => {
+    const schemas: Record<string, SchemaObject> = { [RECORD_ID_NAME]: RECORD_ID_SCHEMA };
+
+    for (const model of schema.getModels()) {
+        schemas[model.name] = classToOpenApi(schema, model);
+    }
+    return schemas;
+};
+
+export {
+    classToOpenApi,
+    generateComponentSchemas,
+    propertyToOpenApi,
+    RECORD_ID_NAME,
+    schemaRef,
+};
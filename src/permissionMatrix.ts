@@ -0,0 +1,125 @@
+/**
+ * Export the permissions of every user group on every class for auditing
+ * @module permissionMatrix
+ */
+import {
+    GroupName, PermissionMatrixCell, PermissionMatrixRow,
+} from './types';
+import { PERMISSIONS } from './constants';
+import { decodePermissions, groupPermissions, PERMISSION_NAMES } from './permissions';
+import { classRoutes } from './routes';
+import type { SchemaDefinition } from './schema';
+
+const GROUP_NAMES: GroupName[] = ['readonly', 'regular', 'manager', 'admin'];
+
+/**
+ * @example
+ * > permissionsString(PERMISSIONS.READ | PERMISSIONS.UPDATE)
+ * '-RU-'
+ */
+const permissionsString = (bits: number): string => PERMISSION_NAMES
+    .map((name) => (bits & PERMISSIONS[name]
+        ? name[0]
+        : '-'))
+    .join('');
+
+/**
+ * Create a row for every class in the schema with the decoded permissions of each user group
+ */
+const generatePermissionMatrix = (schema: SchemaDefinition): PermissionMatrixRow[] => schema.getModels()
+    .map((model) => model.name)
+    .sort()
+    .map((name) => {
+        const model = schema.get(name);
+        const routeBits = classRoutes(model).reduce((bits, route) => bits | route.permission, PERMISSIONS.NONE);
+        const groups = {} as Record<GroupName, PermissionMatrixCell>;
+
+        for (const group of GROUP_NAMES) {
+            const { bits } = groupPermissions(model, { name: group });
+            groups[group] = {
+                bits,
+                permissions: decodePermissions(bits),
+                beyondRoutes: decodePermissions(bits & ~routeBits),
+            };
+        }
+        return {
+            model: name,
+            isAbstract: model.isAbstract,
+            abstractAncestors: schema.ancestors(name).filter((ancestor) => schema.get(ancestor).isAbstract),
+            routes: decodePermissions(routeBits),
+            groups,
+        };
+    });
+
+const csvValue = (value: string) => (/[",\n]/.exec(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value);
+
+const formatCsv = (rows: PermissionMatrixRow[]): string => {
+    const header = ['class', 'abstract', 'abstractAncestors', 'routes'];
+
+    for (const group of GROUP_NAMES) {
+        header.push(group, `${group}BeyondRoutes`);
+    }
+    const lines = [header];
+
+    for (const row of rows) {
+        const line = [row.model, `${row.isAbstract}`, row.abstractAncestors.join(' '), row.routes.join(' ')];
+
+        for (const group of GROUP_NAMES) {
+            line.push(permissionsString(row.groups[group].bits), row.groups[group].beyondRoutes.join(' '));
+        }
+        lines.push(line);
+    }
+    return lines.map((line) => `${line.map(csvValue).join(',')}\n`).join('');
+};
+
+const formatMarkdown = (rows: PermissionMatrixRow[]): string => {
+    const lines = [
+        `| Class | Abstract Ancestors | Routes | ${GROUP_NAMES.join(' | ')} |`,
+        `| --- | --- | --- | ${GROUP_NAMES.map(() => '---').join(' | ')} |`,
+    ];
+
+    for (const row of rows) {
+        const name = row.isAbstract
+            ? `${row.model} (abstract)`
+            : row.model;
+        const cells = GROUP_NAMES.map((group) => {
+            const { bits, beyondRoutes } = row.groups[group];
+
+            // highlight permissions which are granted but not exposed by the API routes
+            if (beyondRoutes.length) {
+                return `**${permissionsString(bits)}** (not routed: ${beyondRoutes.join(', ')})`;
+            }
+            return permissionsString(bits);
+        });
+        const routeBits = row.routes.reduce((bits, permission) => bits | PERMISSIONS[permission], PERMISSIONS.NONE);
+        lines.push(`| ${name} | ${row.abstractAncestors.join(', ')} | ${permissionsString(routeBits)} | ${cells.join(' | ')} |`);
+    }
+    return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Export the permission matrix of the schema for auditing
+ *
+ * @param schema the schema definition
+ * @param format the output format
+ */
+const exportPermissionMatrix = (schema: SchemaDefinition, format: 'json' | 'csv' | 'markdown' = 'json'): string => {
+    const rows = generatePermissionMatrix(schema);
+
+    if (format === 'csv') {
+        return formatCsv(rows);
+    }
+    if (format === 'markdown') {
+        return formatMarkdown(rows);
+    }
+    return JSON.stringify(rows, null, 2);
+};
+
+export {
+    exportPermissionMatrix,
+    generatePermissionMatrix,
+    GROUP_NAMES,
+    permissionsString,
+};
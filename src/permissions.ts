@@ -0,0 +1,306 @@
+/**
+ * Combine the class, user group and record-level permissions into the effective permissions of a user
+ * @module permissions
+ */
+import {
+    AccessUser,
+    AccessUserGroup,
+    ClassDefinition,
+    EffectivePermissions,
+    GraphRecord,
+    PermissionDecision,
+    PermissionName,
+    PropertyDefinition,
+    RecordAccess,
+} from './types';
+import { GraphRecordId, PERMISSIONS } from './constants';
+import { ValidationError } from './error';
+import { recordId } from './util';
+import type { SchemaDefinition } from './schema';
+
+const PERMISSION_NAMES: PermissionName[] = ['CREATE', 'READ', 'UPDATE', 'DELETE'];
+
+/**
+ * List the permissions granted by a combination of permission bits
+ *
+ * @example
+ * > decodePermissions(PERMISSIONS.READ | PERMISSIONS.UPDATE)
+ * ['READ', 'UPDATE']
+ */
+const decodePermissions = (bits: number): PermissionName[] => PERMISSION_NAMES.filter((name) => bits & PERMISSIONS[name]);
+
+/**
+ * the expanded group records of a user. Groups given only as record IDs, or null links, cannot grant permissions
+ */
+const expandedGroups = (user: AccessUser): AccessUserGroup[] => (user.groups || [])
+    .filter((group): group is AccessUserGroup => Boolean(group) && typeof group === 'object' && !(group instanceof GraphRecordId));
+
+/**
+ * Get the permission bits a single user group has on a class. Permissions stored on the UserGroup
+ * record take precedence over the class definition
+ */
+const groupPermissions = (model: ClassDefinition, group: AccessUserGroup): { bits: number; reason: string } => {
+    const name = group.name || recordId(group);
+    const stored = group.permissions?.[model.name];
+
+    if (typeof stored === 'number') {
+        return { bits: stored, reason: `the permissions of the UserGroup record ${name}` };
+    }
+    if (group.name && model.permissions[group.name] !== undefined) {
+        return { bits: model.permissions[group.name], reason: `the ${model.name} class permissions for the ${group.name} group` };
+    }
+    return { bits: model.permissions.default || PERMISSIONS.NONE, reason: `the ${model.name} class default permissions` };
+};
+
+/**
+ * Check if a user belongs to at least one of the groups a record is restricted to
+ *
+ * @returns the reason the user cannot access the record, or null if the record is not restricted from them
+ */
+const checkGroupRestrictions = (user: AccessUser, record: Partial<GraphRecord>): string | null => {
+    const restrictions = ((record.groupRestrictions || []) as unknown[]).map(recordId);
+
+    if (!restrictions.length) {
+        return null;
+    }
+    const userGroups = (user.groups || []).map(recordId);
+
+    if (userGroups.some((rid) => restrictions.includes(rid))) {
+        return null;
+    }
+    return `the record is restricted to the groups [${restrictions.join(', ')}]`;
+};
+
+/**
+ * Collect the paths of the expanded linked/embedded records (at any depth) which the user cannot access
+ */
+const findRestrictedLinks = (
+    schema: SchemaDefinition,
+    user: AccessUser,
+    modelName: string,
+    record: Record<string, unknown>,
+    path: string,
+    visited: Set<unknown>,
+): string[] => {
+    const redact: string[] = [];
+    visited.add(record);
+
+    for (const prop of Object.values(schema.getProperties(modelName))) {
+        const value = record[prop.name];
+
+        if (!prop.linkedClass || !value || typeof value !== 'object') {
+            continue;
+        }
+        const propPath = path
+            ? `${path}.${prop.name}`
+            : prop.name;
+        const items: [string, unknown][] = Array.isArray(value)
+            ? value.map((item, index) => [`${propPath}[${index}]`, item])
+            : [[propPath, value]];
+
+        for (const [itemPath, item] of items) {
+            if (!item || typeof item !== 'object' || item instanceof GraphRecordId || visited.has(item)) {
+                continue;
+            }
+            const linked = item as Record<string, unknown>;
+
+            if (checkGroupRestrictions(user, linked)) {
+                redact.push(itemPath);
+            } else {
+                const linkedModel = typeof linked['@class'] === 'string' && schema.has(linked['@class'])
+                    ? linked['@class']
+                    : prop.linkedClass;
+                redact.push(...findRestrictedLinks(schema, user, linkedModel, linked, itemPath, visited));
+            }
+        }
+    }
+    return redact;
+};
+
+/**
+ * Check if a user is allowed to see a record based on its groupRestrictions and find any linked records
+ * (ex. the evidence of a statement) which must be redacted before it is returned to them
+ *
+ * @param schema the schema definition
+ * @param user the user record with its groups
+ * @param modelName the class of the record
+ * @param record the record with any linked records expanded
+ */
+const checkRecordAccess = (
+    schema: SchemaDefinition,
+    user: AccessUser,
+    modelName: string,
+    record: Partial<GraphRecord>,
+): RecordAccess => {
+    const reason = checkGroupRestrictions(user, record);
+
+    if (reason) {
+        return { accessible: false, reason, redact: [] };
+    }
+    return {
+        accessible: true,
+        redact: findRestrictedLinks(schema, user, modelName, record, '', new Set()),
+    };
+};
+
+/**
+ * Resolve the CREATE/READ/UPDATE/DELETE permissions a user has on a class (and optionally a specific
+ * record of that class), explaining which rule granted or denied each
+ *
+ * @param schema the schema definition
+ * @param user the user with their groups expanded
+ * @param modelName the class being accessed
+ * @param record the record being accessed (checked for groupRestrictions)
+ */
+const resolvePermissions = (
+    schema: SchemaDefinition,
+    user: AccessUser,
+    modelName: string,
+    record?: Partial<GraphRecord>,
+): EffectivePermissions => {
+    const model = schema.get(modelName);
+    const groups = expandedGroups(user).map((group) => ({ name: group.name || `${recordId(group)}`, ...groupPermissions(model, group) }));
+    const restricted = record
+        ? checkGroupRestrictions(user, record)
+        : null;
+    const decisions: PermissionDecision[] = [];
+    let permissions = PERMISSIONS.NONE;
+
+    for (const permission of PERMISSION_NAMES) {
+        const grantedBy = groups.find((group) => group.bits & PERMISSIONS[permission]);
+
+        if (restricted) {
+            decisions.push({ permission, granted: false, reason: restricted });
+        } else if (grantedBy) {
+            permissions |= PERMISSIONS[permission];
+            decisions.push({
+                permission, granted: true, group: grantedBy.name, reason: `granted by ${grantedBy.reason}`,
+            });
+        } else if (!groups.length) {
+            decisions.push({ permission, granted: false, reason: 'the user does not belong to any (expanded) groups' });
+        } else {
+            decisions.push({
+                permission,
+                granted: false,
+                reason: `not granted by any of the user groups (${groups.map((group) => `${group.name}: ${group.reason}`).join('; ')})`,
+            });
+        }
+    }
+    return { model: model.name, permissions, decisions };
+};
+
+/**
+ * Get the permission bits the groups of a user have on a property. Properties without permissions are not restricted
+ */
+const propertyPermissions = (prop: PropertyDefinition, user: AccessUser): number => {
+    const { permissions } = prop;
+
+    if (!permissions) {
+        return PERMISSIONS.ALL;
+    }
+    return expandedGroups(user).reduce((bits, group) => {
+        const groupBits = group.name !== undefined && permissions[group.name] !== undefined
+            ? permissions[group.name]
+            : permissions.default;
+        return bits | (groupBits || PERMISSIONS.NONE);
+    }, PERMISSIONS.NONE);
+};
+
+/**
+ * remove the properties the user cannot read from a record and any expanded records it links to or embeds
+ */
+const stripUnreadable = (
+    schema: SchemaDefinition,
+    user: AccessUser,
+    modelName: string,
+    record: Record<string, unknown>,
+    seen: Map<unknown, unknown>,
+): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    seen.set(record, result);
+    const properties = schema.getProperties(modelName);
+
+    const project = (value: unknown, linkedClass: string) => {
+        if (!value || typeof value !== 'object' || value instanceof GraphRecordId) {
+            return value;
+        }
+        if (seen.has(value)) {
+            return seen.get(value);
+        }
+        const linked = value as Record<string, unknown>;
+        const linkedModel = typeof linked['@class'] === 'string' && schema.has(linked['@class'])
+            ? linked['@class']
+            : linkedClass;
+        return stripUnreadable(schema, user, linkedModel, linked, seen);
+    };
+
+    for (const [key, value] of Object.entries(record)) {
+        const prop = properties[key];
+
+        if (!prop) {
+            result[key] = value;
+        } else if (propertyPermissions(prop, user) & PERMISSIONS.READ) {
+            if (!prop.linkedClass) {
+                result[key] = value;
+            } else if (Array.isArray(value)) {
+                result[key] = value.map((item) => project(item, prop.linkedClass as string));
+            } else {
+                result[key] = project(value, prop.linkedClass);
+            }
+        }
+    }
+    return result;
+};
+
+/**
+ * Project a record according to the property permissions of the user's groups. For READ, the properties
+ * the user cannot see are removed (including from expanded linked records). For CREATE and UPDATE, an error is
+ * thrown if the record sets any property the user is not allowed to write
+ *
+ * @param schema the schema definition
+ * @param user the user with their groups expanded
+ * @param modelName the class of the record
+ * @param record the record being returned to or input by the user
+ * @param operation the operation being performed
+ *
+ * @throws {ValidationError} when the record sets a property the user is not allowed to write
+ */
+const projectRecord = (
+    schema: SchemaDefinition,
+    user: AccessUser,
+    modelName: string,
+    record: Record<string, unknown>,
+    operation: Exclude<PermissionName, 'DELETE'> = 'READ',
+): Record<string, unknown> => {
+    if (operation === 'READ') {
+        return stripUnreadable(schema, user, modelName, record, new Map());
+    }
+    const properties = schema.getProperties(modelName);
+
+    for (const key of Object.keys(record)) {
+        const prop = properties[key];
+
+        if (prop && !(propertyPermissions(prop, user) & PERMISSIONS[operation])) {
+            throw new ValidationError({
+                message: `The user does not have ${operation} permission on the property ${modelName}.${key}`,
+                code: 'FORBIDDEN_PROPERTY',
+                field: key,
+                model: modelName,
+                constraint: 'permission',
+                constraintValue: operation,
+            });
+        }
+    }
+    return { ...record };
+};
+
+export {
+    checkGroupRestrictions,
+    checkRecordAccess,
+    decodePermissions,
+    groupPermissions,
+    PERMISSION_NAMES,
+    projectRecord,
+    propertyPermissions,
+    resolvePermissions,
+};
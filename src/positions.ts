@@ -0,0 +1,252 @@
+/**
+ * Compare, order and overlap (embedded) Position records and breakStart..breakEnd ranges
+ * @module positions
+ */
+import { PositionRange, PositionRecord } from './types';
+import { ValidationError } from './error';
+
+/**
+ * the lowest and highest comparison keys a position could refer to. These are equal for fully specified
+ * positions and differ for unknown (ex. p.?) or partially specified (ex. y.p11) positions
+ */
+interface PositionBounds {
+    low: number[];
+    high: number[];
+}
+
+const isKnown = (value: unknown): value is number => typeof value === 'number';
+
+/**
+ * create the bounds from the comparison levels of a position. Once a level is unknown, all following levels
+ * are unknown as well (ex. the minor band of y.p11)
+ */
+const levelBounds = (levels: Array<number | null | undefined>): PositionBounds => {
+    const low: number[] = [];
+    const high: number[] = [];
+    let known = true;
+
+    for (const level of levels) {
+        known = known && isKnown(level);
+        low.push(known
+            ? level as number
+            : -Infinity);
+        high.push(known
+            ? level as number
+            : Infinity);
+    }
+    return { low, high };
+};
+
+const basicBounds = ({ pos }: PositionRecord) => levelBounds([pos]);
+
+// the offset (ex. an intronic c.123+4) is only meaningful for a known pos
+const offsetBounds = ({ pos, offset }: PositionRecord) => levelBounds([
+    pos,
+    isKnown(pos)
+        ? offset || 0
+        : null,
+]);
+
+/**
+ * cytobands are ordered from the end of the p arm to the end of the q arm (ex. p22 < p11 < q11 < q22) so
+ * the p arm bands are negated
+ */
+const cytobandBounds = ({ arm, majorBand, minorBand }: PositionRecord) => {
+    if (arm !== 'p' && arm !== 'q') {
+        return levelBounds([null, null, null]);
+    }
+    const sign = arm === 'p'
+        ? -1
+        : 1;
+    return levelBounds([
+        arm === 'p'
+            ? 0
+            : 1,
+        isKnown(majorBand)
+            ? sign * majorBand
+            : null,
+        isKnown(minorBand)
+            ? sign * minorBand
+            : null,
+    ]);
+};
+
+/**
+ * the function used to find the bounds of each Position subclass. New coordinate systems can be
+ * compared by adding them here
+ */
+const POSITION_BOUNDS: Record<string, (position: PositionRecord) => PositionBounds> = {
+    CdsPosition: offsetBounds,
+    CytobandPosition: cytobandBounds,
+    ExonicPosition: basicBounds,
+    GenomicPosition: basicBounds,
+    IntronicPosition: basicBounds,
+    NonCdsPosition: offsetBounds,
+    ProteinPosition: basicBounds,
+    RnaPosition: offsetBounds,
+};
+
+const compareKeys = (key1: number[], key2: number[]): number => {
+    for (let i = 0; i < Math.max(key1.length, key2.length); i++) {
+        if (key1[i] !== key2[i]) {
+            return key1[i] < key2[i]
+                ? -1
+                : 1;
+        }
+    }
+    return 0;
+};
+
+/**
+ * check that the positions are all in the same coordinate system and can be compared
+ *
+ * @throws {ValidationError} when the positions are not in the same coordinate system or the system cannot be compared
+ */
+const checkCompatible = (...positions: PositionRecord[]): string => {
+    const [{ '@class': coordinateSystem }] = positions;
+
+    if (!POSITION_BOUNDS[coordinateSystem]) {
+        throw new ValidationError({
+            message: `Unable to compare positions of the class ${coordinateSystem}`,
+            code: 'INCOMPATIBLE_POSITIONS',
+            value: coordinateSystem,
+        });
+    }
+    const other = positions.find((position) => position['@class'] !== coordinateSystem);
+
+    if (other) {
+        throw new ValidationError({
+            message: `Unable to compare positions in different coordinate systems (${coordinateSystem} and ${other['@class']})`,
+            code: 'INCOMPATIBLE_POSITIONS',
+            value: [coordinateSystem, other['@class']],
+        });
+    }
+    return coordinateSystem;
+};
+
+const positionBounds = (position: PositionRecord): PositionBounds => POSITION_BOUNDS[checkCompatible(position)](position);
+
+/**
+ * Compare two positions for sorting. Less specific positions sort before the more specific positions they contain (ex. y.p11 before y.p11.2)
+ *
+ * @throws {ValidationError} when the positions are in different coordinate systems
+ *
+ * @example
+ * > [cds(10), cds(5)].sort(comparePositions)
+ * [cds(5), cds(10)]
+ */
+const comparePositions = (position1: PositionRecord, position2: PositionRecord): number => {
+    checkCompatible(position1, position2);
+    const bounds1 = positionBounds(position1);
+    const bounds2 = positionBounds(position2);
+    return compareKeys(bounds1.low, bounds2.low) || compareKeys(bounds2.high, bounds1.high);
+};
+
+/**
+ * Check if two positions are the same. Reference sequence details (ex. refAA) are not compared
+ *
+ * @throws {ValidationError} when the positions are in different coordinate systems
+ */
+const positionsEqual = (position1: PositionRecord, position2: PositionRecord): boolean => comparePositions(position1, position2) === 0;
+
+/**
+ * Check if the first position is entirely before the second. Unknown or partially specified positions are only
+ * less than positions after everything they could refer to
+ *
+ * @throws {ValidationError} when the positions are in different coordinate systems
+ *
+ * @example
+ * > positionLessThan({ '@class': 'CdsPosition', pos: 10, offset: 4 }, { '@class': 'CdsPosition', pos: 11, offset: -3 })
+ * true
+ */
+const positionLessThan = (position1: PositionRecord, position2: PositionRecord): boolean => {
+    checkCompatible(position1, position2);
+    return compareKeys(positionBounds(position1).high, positionBounds(position2).low) < 0;
+};
+
+/**
+ * the bounds of a range from the lowest key of its start to the highest key of its end
+ *
+ * @throws {ValidationError} when the range ends before it starts
+ */
+const rangeBounds = ({ start, end }: PositionRange): PositionBounds => {
+    if (!end) {
+        return positionBounds(start);
+    }
+    checkCompatible(start, end);
+    const { low } = positionBounds(start);
+    const { high } = positionBounds(end);
+
+    if (compareKeys(low, high) > 0) {
+        throw new ValidationError({
+            message: 'Invalid position range. The end position must not be before the start position',
+            value: { start, end },
+        });
+    }
+    return { low, high };
+};
+
+const asRange = (value: PositionRange | PositionRecord): PositionRange => ('start' in value
+    ? value as PositionRange
+    : { start: value as PositionRecord });
+
+/**
+ * Check if a range (ex. break1Start..break1End) contains another range or position
+ *
+ * @throws {ValidationError} when the positions are in different coordinate systems
+ *
+ * @example
+ * > rangeContains({ start: genomic(100), end: genomic(200) }, genomic(150))
+ * true
+ */
+const rangeContains = (outer: PositionRange, inner: PositionRange | PositionRecord): boolean => {
+    const innerRange = asRange(inner);
+    checkCompatible(outer.start, innerRange.start);
+    const outerBounds = rangeBounds(outer);
+    const innerBounds = rangeBounds(innerRange);
+    return compareKeys(outerBounds.low, innerBounds.low) <= 0 && compareKeys(innerBounds.high, outerBounds.high) <= 0;
+};
+
+/**
+ * Check if two ranges (ex. the breakpoints of two variants) share any positions
+ *
+ * @throws {ValidationError} when the positions are in different coordinate systems
+ */
+const rangesOverlap = (range1: PositionRange | PositionRecord, range2: PositionRange | PositionRecord): boolean => {
+    const first = asRange(range1);
+    const second = asRange(range2);
+    checkCompatible(first.start, second.start);
+    const bounds1 = rangeBounds(first);
+    const bounds2 = rangeBounds(second);
+    return compareKeys(bounds1.low, bounds2.high) <= 0 && compareKeys(bounds2.low, bounds1.high) <= 0;
+};
+
+/**
+ * Get a break of a positional variant as a range
+ *
+ * @param record the positional variant record
+ * @param name the break to get
+ *
+ * @returns null when the variant does not have the break (ex. break2 of a substitution)
+ */
+const breakRange = (
+    record: Partial<Record<'break1Start' | 'break1End' | 'break2Start' | 'break2End', PositionRecord | null>>,
+    name: 'break1' | 'break2',
+): PositionRange | null => {
+    const start = record[`${name}Start`];
+
+    if (!start) {
+        return null;
+    }
+    return { start, end: record[`${name}End`] || null };
+};
+
+export {
+    breakRange,
+    comparePositions,
+    POSITION_BOUNDS,
+    positionLessThan,
+    positionsEqual,
+    rangeContains,
+    rangesOverlap,
+};
@@ -23,6 +23,9 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
         throw new ValidationError({
             message: `The ${prop.name} property is not iterable but has been given multiple values`,
             field: prop.name,
+            code: 'NOT_ITERABLE',
+            constraint: 'iterable',
+            value: inputValue,
         });
     }
 
@@ -34,6 +37,10 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
             throw new ValidationError({
                 message: `The ${prop.name} property cannot be null`,
                 field: prop.name,
+                code: 'NOT_NULLABLE',
+                constraint: 'nullable',
+                constraintValue: prop.nullable,
+                value,
             });
         }
         let castValue = value;
@@ -45,6 +52,9 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
                 throw new ValidationError({
                     message: `Failed casting ${prop.name}: ${err.message}`,
                     field: prop.name,
+                    code: 'CAST_FAILED',
+                    constraint: 'cast',
+                    value,
                     castFunction: prop.cast,
                 });
             }
@@ -55,6 +65,10 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
             throw new ValidationError({
                 message: `The ${prop.name} property cannot be an empty string`,
                 field: prop.name,
+                code: 'EMPTY_STRING',
+                constraint: 'nonEmpty',
+                constraintValue: prop.nonEmpty,
+                value: castValue,
             });
         }
         if (castValue !== null) {
@@ -62,18 +76,30 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
                 throw new ValidationError({
                     message: `Violated the minimum value constraint of ${prop.name} (${castValue} < ${prop.minimum})`,
                     field: prop.name,
+                    code: 'BELOW_MINIMUM',
+                    constraint: 'minimum',
+                    constraintValue: prop.minimum,
+                    value: castValue,
                 });
             }
             if (prop.maximum !== undefined && prop.maximum !== null && castValue > prop.maximum) {
                 throw new ValidationError({
                     message: `Violated the maximum value constraint of ${prop.name} (${castValue} > ${prop.maximum})`,
                     field: prop.name,
+                    code: 'ABOVE_MAXIMUM',
+                    constraint: 'maximum',
+                    constraintValue: prop.maximum,
+                    value: castValue,
                 });
             }
             if (prop.pattern && !castValue.toString().match(prop.pattern)) {
                 throw new ValidationError({
                     message: `Violated the pattern constraint of ${prop.name}. ${castValue} does not match the expected pattern ${prop.pattern}`,
                     field: prop.name,
+                    code: 'PATTERN_MISMATCH',
+                    constraint: 'pattern',
+                    constraintValue: prop.pattern,
+                    value: castValue,
                 });
             }
             if (prop.choices && !prop.choices.includes(castValue)) {
@@ -86,6 +112,10 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
                         prop.choices.join(', ')
                     }]`,
                     field: prop.name,
+                    code: 'INVALID_CHOICE',
+                    constraint: 'choices',
+                    constraintValue: prop.choices,
+                    value: castValue,
                 });
             }
         }
@@ -96,6 +126,8 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
                     : ''
                 }`,
                 field: prop.name,
+                code: 'CHECK_FAILED',
+                constraint: prop.check.name || 'check',
                 value: castValue,
             });
         }
@@ -103,10 +135,24 @@ export const validateProperty = (prop: PropertyDefinition, inputValue: unknown):
 
     // check minItems and maxItems
     if (prop.minItems && result.length < prop.minItems) {
-        throw new ValidationError(`Violated the minItems constraint of ${prop.name}. Less than the required number of elements (${result.length} < ${prop.minItems})`);
+        throw new ValidationError({
+            message: `Violated the minItems constraint of ${prop.name}. Less than the required number of elements (${result.length} < ${prop.minItems})`,
+            field: prop.name,
+            code: 'TOO_FEW_ITEMS',
+            constraint: 'minItems',
+            constraintValue: prop.minItems,
+            value: result,
+        });
     }
     if ((prop.maxItems || prop.maxItems === 0) && result.length > prop.maxItems) {
-        throw new ValidationError(`Violated the maxItems constraint of ${prop.name}. More than the allowed number of elements (${result.length} > ${prop.maxItems})`);
+        throw new ValidationError({
+            message: `Violated the maxItems constraint of ${prop.name}. More than the allowed number of elements (${result.length} > ${prop.maxItems})`,
+            field: prop.name,
+            code: 'TOO_MANY_ITEMS',
+            constraint: 'maxItems',
+            constraintValue: prop.maxItems,
+            value: result,
+        });
     }
     return inputValue instanceof Array
         ? result
@@ -0,0 +1,553 @@
+/* eslint-disable @typescript-eslint/no-empty-interface */
+/**
+ * Interfaces for the records of each class in the schema
+ *
+ * This file is generated by scripts/generateTypes.js (npm run generate:types). Do not edit it directly
+ * @module records
+ */
+import { GraphRecordId } from './constants';
+
+/** Abstract from a publication or conference proceeding */
+export interface Abstract extends Publication {
+    meeting: string;
+    abstractNumber: string;
+}
+
+/** The source record is an equivalent representation of the target record, both of which are from the same source */
+export interface AliasOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+/** Physiological structures such as body parts or tissues */
+export interface AnatomicalEntity extends Ontology {
+}
+
+export interface Biomarker {
+}
+
+/** Variant as described by an identifier in an external database/source */
+export interface CatalogueVariant extends Ontology {
+}
+
+/** Variants which cannot be described by a particular position and use common terms instead */
+export interface CategoryVariant extends Variant {
+    /** Generally this is the gene which a mutation or variant is defined with respect to */
+    reference1: GraphRecordId | Ontology;
+    /** This is only used for variants involving more than one feature (ex. fusions) */
+    reference2?: GraphRecordId | Ontology | null;
+    /** Optional string used for display in the web application. Can be overwritten w/o tracking */
+    displayName?: string | null;
+}
+
+/** position on a coding DNA reference sequences. nucleotide numbering is based on the annotated protein isoform, the major translation product (https://varnomen.hgvs.org/bg-material/numbering). */
+export interface CdsPosition extends Position {
+    '@class': 'CdsPosition';
+    pos: number | null;
+    offset?: number | null;
+}
+
+/** Generally refers to relationships between publications. For example, some article cites another */
+export interface Cites extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+export interface ClinicalTrial extends Evidence, Ontology {
+    phase?: string | null;
+    /** The number of participants in the trial */
+    size?: number | null;
+    startDate?: string | null;
+    completionDate?: string | null;
+    /** The country the trial is held in */
+    country?: string | null;
+    /** The city the trial is held in */
+    city?: string | null;
+    /** The recruitment status of the trial */
+    recruitmentStatus?: 'not yet recruiting' | 'recruiting' | 'enrolling by invitation' | 'active, not recruiting' | 'suspended' | 'terminated' | 'completed' | 'withdrawn' | 'unknown' | null;
+    /** Free text representation of the location of where the trial is being held */
+    location?: string | null;
+}
+
+/** The source record is an equivalent representation of the target record from a different source */
+export interface CrossReferenceOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+/** Evidence which has been summarized, amalgemated, or curated by some external database/society */
+export interface CuratedContent extends Evidence, Ontology {
+    /** The year the article was published */
+    year?: number | null;
+    doi?: string | null;
+    /** text content being referred to, stored for posterity if required */
+    content?: string | null;
+    /** citation provided by the source entity */
+    citation?: string | null;
+}
+
+export interface CytobandPosition extends Position {
+    '@class': 'CytobandPosition';
+    arm: 'p' | 'q';
+    majorBand?: number | null;
+    minorBand?: number | null;
+}
+
+/** The target record is a newer version of the source record */
+export interface DeprecatedBy extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+/** a disorder of structure or function in an organism that produces specific signs or symptoms or that affects a specific location */
+export interface Disease extends Ontology {
+}
+
+/** Edges */
+export interface E {
+    /** The record identifier */
+    '@rid'?: string | null;
+    /** The database class this record belongs to */
+    '@class'?: string | null;
+    /** Internal identifier for tracking record history */
+    uuid: string;
+    /** The timestamp at which the record was created */
+    createdAt: number;
+    /** The user who created the record */
+    createdBy: GraphRecordId | User;
+    /** The timestamp at which the record was deleted */
+    deletedAt?: number;
+    /** The user who deleted the record */
+    deletedBy?: GraphRecordId | User;
+    /** Link to the previous version of this record */
+    history?: GraphRecordId;
+    comment?: string | null;
+}
+
+/** The source record is part of (or contained within) the target record */
+export interface ElementOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+/** Classes which can be used as support for statements */
+export interface Evidence {
+}
+
+/** Evidence Classification Term */
+export interface EvidenceLevel extends Evidence, Ontology {
+    /** True when intended for studies on preclinical models, otherwise false or null */
+    preclinical?: boolean | null;
+}
+
+export interface ExonicPosition extends Position {
+    '@class': 'ExonicPosition';
+    /** The exon number */
+    pos: number | null;
+}
+
+/** Biological Feature. Can be a gene, protein, etc. */
+export interface Feature extends Ontology {
+    start?: number | null;
+    end?: number | null;
+    /** The biological type of the feature */
+    biotype: 'gene' | 'protein' | 'transcript' | 'exon' | 'chromosome';
+    /** Optional string used for display in the web application. Can be overwritten w/o tracking */
+    displayName?: string | null;
+}
+
+/** The source record is a less specific (or more general) instance of the target record */
+export interface GeneralizationOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+export interface GenomicPosition extends Position {
+    '@class': 'GenomicPosition';
+    /** The genomic/nucleotide number */
+    pos: number | null;
+}
+
+/** Given the source record, the target record is also expected. For example given some genomic variant we infer the protein change equivalent */
+export interface Infers extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+export interface IntronicPosition extends Position {
+    '@class': 'IntronicPosition';
+    pos: number | null;
+}
+
+export interface LicenseAgreement {
+    /** The timestamp at which this terms of use was put into action */
+    enactedAt: number;
+    content: unknown[];
+}
+
+/** position on a non-coding DNA reference sequence */
+export interface NonCdsPosition extends Position {
+    '@class': 'NonCdsPosition';
+    pos: number | null;
+    /** distance from the nearest exon boundary (pos) */
+    offset?: number | null;
+}
+
+export interface Ontology extends V, Biomarker {
+    /** Link to the source (database, archive, institute, etc) from which this record is defined */
+    source: GraphRecordId | Source;
+    /** The identifier of the record/term in the external source database/system */
+    sourceId: string;
+    /** Mainly for alias records. If this term is defined as a part of another term, this should link to the original term */
+    dependency?: GraphRecordId | null;
+    /** Name of the term */
+    name?: string;
+    /** The version of the identifier based on the external database/system */
+    sourceIdVersion?: string | null;
+    description?: string | null;
+    longName?: string | null;
+    /** A list of names of subsets this term belongs to */
+    subsets?: string[] | null;
+    /** True when the term was deprecated by the external source */
+    deprecated: boolean;
+    /** True when the term is defined as an alias or synonym of the sourceId attributed to it (does not have its own sourceId) */
+    alias: boolean;
+    url?: string | null;
+    /** Optional string used for display in the web application. Can be overwritten w/o tracking */
+    displayName?: string | null;
+}
+
+export interface OppositeOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+/** Primarily describes biological pathways */
+export interface Pathway extends Ontology {
+}
+
+export interface Permissions {
+    V?: number;
+    Evidence?: number;
+    Biomarker?: number;
+    Source?: number;
+    LicenseAgreement?: number;
+    E?: number;
+    AliasOf?: number;
+    Cites?: number;
+    CrossReferenceOf?: number;
+    DeprecatedBy?: number;
+    ElementOf?: number;
+    GeneralizationOf?: number;
+    Infers?: number;
+    SubClassOf?: number;
+    TargetOf?: number;
+    OppositeOf?: number;
+    Statement?: number;
+    Variant?: number;
+    PositionalVariant?: number;
+    CategoryVariant?: number;
+    CatalogueVariant?: number;
+    User?: number;
+    UserGroup?: number;
+    Ontology?: number;
+    EvidenceLevel?: number;
+    ClinicalTrial?: number;
+    Abstract?: number;
+    Publication?: number;
+    CuratedContent?: number;
+    Therapy?: number;
+    Feature?: number;
+    AnatomicalEntity?: number;
+    Disease?: number;
+    Pathway?: number;
+    Signature?: number;
+    Vocabulary?: number;
+}
+
+export interface Position {
+    /** The database class this record belongs to */
+    '@class'?: string | null;
+}
+
+/** Variants which can be described by there position on some reference sequence */
+export interface PositionalVariant extends Variant {
+    /** Generally this is the gene which a mutation or variant is defined with respect to */
+    reference1: GraphRecordId | Feature;
+    /** This is only used for variants involving more than one feature (ex. fusions) */
+    reference2?: GraphRecordId | Feature | null;
+    /** position of the first breakpoint */
+    break1Start: ProteinPosition | CytobandPosition | GenomicPosition | ExonicPosition | IntronicPosition | CdsPosition | NonCdsPosition | RnaPosition;
+    /** Optional string used for display in the web application. Can be overwritten w/o tracking */
+    displayName?: string | null;
+    /** used in combination with break1Start to indicate the position of the first breakpoint is uncertain and must be represented with a range */
+    break1End?: ProteinPosition | CytobandPosition | GenomicPosition | ExonicPosition | IntronicPosition | CdsPosition | NonCdsPosition | RnaPosition | null;
+    break1Repr?: string | null;
+    /** position of the second breakpoint */
+    break2Start?: ProteinPosition | CytobandPosition | GenomicPosition | ExonicPosition | IntronicPosition | CdsPosition | NonCdsPosition | RnaPosition | null;
+    /** used in combination with break2Start to indicate the position of the second breakpoint is uncertain and must be represented with a range */
+    break2End?: ProteinPosition | CytobandPosition | GenomicPosition | ExonicPosition | IntronicPosition | CdsPosition | NonCdsPosition | RnaPosition | null;
+    break2Repr?: string | null;
+    /** the variants reference sequence */
+    refSeq?: string | null;
+    /** Untemplated or alternative sequence */
+    untemplatedSeq?: string | null;
+    /** The length of the untemplated sequence. Useful when we know the number of bases inserted but not what they are */
+    untemplatedSeqSize?: number | null;
+    /** Used with frameshift mutations to indicate the position of the new stop codon */
+    truncation?: number | null;
+    /** Flag which is optionally used for genomic variants that are not linked to a fixed assembly reference */
+    assembly?: string | null;
+    /** the short form of this type to use in building an HGVS-like representation */
+    hgvsType?: string | null;
+}
+
+/** position on a protein reference sequence. amino acid numbering is p.1, p.2, p.3, …, etc. from the first to the last amino acid of the reference sequence (https://varnomen.hgvs.org/bg-material/numbering) */
+export interface ProteinPosition extends Position {
+    '@class': 'ProteinPosition';
+    /** The Amino Acid number */
+    pos: number | null;
+    /** The reference Amino Acid (single letter notation) */
+    refAA?: string | null;
+}
+
+/** a book, journal, manuscript, or article */
+export interface Publication extends Evidence, Ontology {
+    /** Name of the journal where the article was published */
+    journalName?: string | null;
+    /** The year the article was published */
+    year?: number | null;
+    doi?: string | null;
+    /** content of the publication */
+    content?: string | null;
+    /** list of authors involved in the publication */
+    authors?: string | null;
+    /** citation provided by the source entity */
+    citation?: string | null;
+    issue?: string | null;
+    volume?: string | null;
+    pages?: string | null;
+}
+
+/** position on a RNA reference sequence. nucleotide numbering for a RNA reference sequence follows that of the associated coding or non-coding DNA reference sequence; nucleotide r.123 relates to c.123 or n.123 (https://varnomen.hgvs.org/bg-material/numbering). */
+export interface RnaPosition extends Position {
+    '@class': 'RnaPosition';
+    pos: number | null;
+    /** distance from the nearest cds exon boundary */
+    offset?: number | null;
+}
+
+/** Characteristic pattern of mutations or changes */
+export interface Signature extends Ontology {
+    aetiology?: string | null;
+}
+
+/** External database, collection, or other authority which is used as reference for other entries */
+export interface Source extends V, Evidence {
+    /** Name of the source */
+    name: string;
+    /** More descriptive name if applicable. May be the expansion of the name acronym */
+    longName?: string | null;
+    /** The source version */
+    version?: string | null;
+    url?: string | null;
+    description?: string | null;
+    /** Link to the usage/licensing information associated with this source */
+    usage?: string | null;
+    /** content of the license agreement (if non-standard) */
+    license?: string | null;
+    /** standard license type */
+    licenseType?: string | null;
+    /** link or information about how to cite this source */
+    citation?: string | null;
+    /** Used in ordering the sources for auto-complete on the front end. Lower numbers indicate the source should be higher in the sorting */
+    sort?: number | null;
+    /** Optional string used for display in the web application. Can be overwritten w/o tracking */
+    displayName?: string | null;
+}
+
+/** Decomposed sentences linking variants and ontological terms to implications and evidence */
+export interface Statement extends V {
+    /** Adds meaning to a statement and applies to the "subject" element */
+    relevance: GraphRecordId | Vocabulary;
+    /** The subject of the statement. For example in a therapeutic efficacy statement this would be a drug */
+    subject: GraphRecordId | Biomarker | null;
+    /** This is the statement context. Formally it is a set of conditions which when true result in the overall assertion of the statement */
+    conditions: (GraphRecordId | Biomarker)[];
+    /** One or more pieces of evidence (Literature, DB, etc) which support the overall assertion */
+    evidence: (GraphRecordId | Evidence)[];
+    description?: string | null;
+    reviews?: StatementReview[] | null;
+    /** The review status of the overall statement. The amalgemated status of all (or no) reviews */
+    reviewStatus?: 'pending' | 'not required' | 'passed' | 'failed' | 'initial' | null;
+    /** If the statement is imported from an external source, this is used to track the statement. This is not used for manually entered statements */
+    sourceId?: string | null;
+    /** If the statement is imported from an external source, it is linked here */
+    source?: GraphRecordId | Source | null;
+    /** A summarization of the supporting evidence for this statment as a category */
+    evidenceLevel?: (GraphRecordId | EvidenceLevel)[] | null;
+    /** The template used in building the display name */
+    displayNameTemplate?: string | null;
+}
+
+/** Review of a statement */
+export interface StatementReview {
+    /** The user who created the record */
+    createdBy: GraphRecordId | User;
+    status: 'pending' | 'not required' | 'passed' | 'failed' | 'initial';
+    /** The timestamp at which the record was created */
+    createdAt: number;
+    comment?: string | null;
+}
+
+/** The source record is a subset of the target record */
+export interface SubClassOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+}
+
+/** The source record is a target of the target record. For example some gene is the target of a particular drug */
+export interface TargetOf extends E {
+    /** The record ID of the vertex the edge goes into, the target/destination vertex */
+    in: GraphRecordId;
+    /** The record ID of the vertex the edge comes from, the source vertex */
+    out: GraphRecordId;
+    source?: GraphRecordId | Source | null;
+    /** The type of action between the gene and drug */
+    actionType?: string | null;
+}
+
+/** Therapy or Drug */
+export interface Therapy extends Ontology {
+    mechanismOfAction?: string | null;
+    molecularFormula?: string | null;
+    iupacName?: string | null;
+    combinationType?: 'sequential' | 'combination' | null;
+}
+
+export interface User {
+    /** The record identifier */
+    '@rid'?: string | null;
+    /** The database class this record belongs to */
+    '@class'?: string | null;
+    /** The username */
+    name: string;
+    /** the email address to contact this user at */
+    email?: string | null;
+    /** Groups this user belongs to. Defines permissions for the user */
+    groups?: (GraphRecordId | UserGroup)[] | null;
+    /** Internal identifier for tracking record history */
+    uuid: string;
+    /** The timestamp at which the record was created */
+    createdAt: number;
+    /** The user who created the record */
+    createdBy?: GraphRecordId | User;
+    /** The timestamp at which the record was deleted */
+    deletedAt?: number;
+    /** The user who deleted the record */
+    deletedBy?: GraphRecordId | User;
+    /** Link to the previous version of this record */
+    history?: GraphRecordId;
+    /** user groups allowed to interact with this record */
+    groupRestrictions?: (GraphRecordId | UserGroup)[] | null;
+    /** This user has read and acknowledged the terms of use as of this date */
+    signedLicenseAt?: number | null;
+    /** The timestamp at which the user last logged in */
+    lastLoginAt?: number | null;
+    /** The timestamp at which the user first logged in */
+    firstLoginAt?: number | null;
+    /** The number of times this user has logged in */
+    loginCount?: number | null;
+}
+
+/** The role or group which users can belong to. Defines permissions */
+export interface UserGroup {
+    /** The record identifier */
+    '@rid'?: string | null;
+    /** The database class this record belongs to */
+    '@class'?: string | null;
+    name: string;
+    /** Internal identifier for tracking record history */
+    uuid: string;
+    /** The timestamp at which the record was created */
+    createdAt: number;
+    /** The user who created the record */
+    createdBy?: GraphRecordId | User;
+    /** The timestamp at which the record was deleted */
+    deletedAt?: number;
+    /** The user who deleted the record */
+    deletedBy?: GraphRecordId | User;
+    /** Link to the previous version of this record */
+    history?: GraphRecordId;
+    permissions?: Permissions | null;
+    description?: string | null;
+}
+
+/** Vertices */
+export interface V {
+    /** The record identifier */
+    '@rid'?: string | null;
+    /** The database class this record belongs to */
+    '@class'?: string | null;
+    /** Internal identifier for tracking record history */
+    uuid: string;
+    /** The timestamp at which the record was created */
+    createdAt: number;
+    /** The user who created the record */
+    createdBy: GraphRecordId | User;
+    /** The timestamp at which the record was last updated */
+    updatedAt: number;
+    /** The user who last updated the record */
+    updatedBy: GraphRecordId | User;
+    /** The timestamp at which the record was deleted */
+    deletedAt?: number;
+    /** The user who deleted the record */
+    deletedBy?: GraphRecordId | User;
+    /** Link to the previous version of this record */
+    history?: GraphRecordId;
+    comment?: string | null;
+    /** user groups allowed to interact with this record */
+    groupRestrictions?: (GraphRecordId | UserGroup)[] | null;
+}
+
+/** Any deviation from the norm (ex. high expression) with respect to some reference object (ex. a gene) */
+export interface Variant extends V, Biomarker {
+    /** The variant classification */
+    type: GraphRecordId | Vocabulary;
+    zygosity?: 'heterozygous' | 'homozygous' | null;
+    /** Flag to indicate if the variant is germline (vs somatic) */
+    germline?: boolean | null;
+}
+
+/** Curated list of terms used in classifying variants or assigning relevance to statements */
+export interface Vocabulary extends Ontology {
+    /** a shortened form of the vocabulary term. Generally this is used for variantClass type records line del for deletion */
+    shortName?: string | null;
+}
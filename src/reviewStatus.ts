@@ -0,0 +1,104 @@
+/**
+ * Derive the overall review status of a statement from its (embedded) reviews
+ * @module reviewStatus
+ */
+import { ValidationError } from './error';
+import { recordId } from './util';
+
+/** the parts of a StatementReview record used in aggregating the review status */
+type Review = { status: string; createdAt?: number | null; createdBy?: unknown };
+
+/**
+ * the review statuses from highest to lowest precedence. When reviewers disagree, the status with the
+ * highest precedence is the overall status (ex. a single failed review fails the statement)
+ */
+const REVIEW_STATUS_PRECEDENCE = ['failed', 'pending', 'passed', 'not required', 'initial'];
+
+/**
+ * the latest review by each reviewer. Reviews without a reviewer are each kept
+ */
+const latestReviews = (reviews: Review[]): Review[] => {
+    const latest: Record<string, Review> = {};
+    const anonymous: Review[] = [];
+
+    for (const review of reviews) {
+        const reviewer = recordId(review.createdBy);
+
+        if (!reviewer) {
+            anonymous.push(review);
+        } else if (!latest[reviewer] || (review.createdAt || 0) >= (latest[reviewer].createdAt || 0)) {
+            // reviews with the same (or no) createdAt are ordered by their position in the list
+            latest[reviewer] = review;
+        }
+    }
+    return [...anonymous, ...Object.values(latest)];
+};
+
+/**
+ * Create the overall review status from a list of reviews. Only the latest review (by createdAt) of each
+ * reviewer is considered, and the status of those with the highest precedence is used (see REVIEW_STATUS_PRECEDENCE)
+ *
+ * @param reviews the StatementReview records
+ *
+ * @returns the overall status or null when there are no reviews
+ *
+ * @example
+ * > aggregateReviewStatus([
+ *     { status: 'failed', createdBy: '#20:0', createdAt: 1 },
+ *     { status: 'passed', createdBy: '#20:0', createdAt: 2 },
+ *     { status: 'pending', createdBy: '#20:1', createdAt: 1 },
+ * ])
+ * 'pending'
+ */
+const aggregateReviewStatus = (reviews: Review[]): string | null => {
+    let result: string | null = null;
+
+    for (const { status } of latestReviews(reviews)) {
+        const precedence = REVIEW_STATUS_PRECEDENCE.indexOf(status);
+
+        if (precedence < 0) {
+            throw new ValidationError({
+                message: `Unable to aggregate the review status. Unexpected review status (${status})`,
+                field: 'reviews',
+                value: status,
+            });
+        }
+        if (result === null || precedence < REVIEW_STATUS_PRECEDENCE.indexOf(result)) {
+            result = status;
+        }
+    }
+    return result;
+};
+
+/**
+ * default reviewStatus for statements. Statements without reviews are not given a review status
+ */
+const generateReviewStatus = (record?: { reviews?: Review[] | null }): string | undefined => aggregateReviewStatus(record?.reviews || []) ?? undefined;
+
+/**
+ * Check that the review status of a statement agrees with its reviews. Statements without reviews
+ * may have any status (ex. statements imported from an external source)
+ *
+ * @throws {ValidationError} when the status does not match the status aggregated from the reviews
+ */
+const checkReviewStatus = (record: { reviews?: Review[] | null; reviewStatus?: string | null }): void => {
+    const expected = generateReviewStatus(record);
+
+    if (expected !== undefined && record.reviewStatus && record.reviewStatus !== expected) {
+        throw new ValidationError({
+            message: `The reviewStatus (${record.reviewStatus}) is not consistent with the reviews (expected ${expected})`,
+            code: 'CHECK_FAILED',
+            field: 'reviewStatus',
+            constraint: 'reviews',
+            constraintValue: expected,
+            value: record.reviewStatus,
+        });
+    }
+};
+
+export {
+    aggregateReviewStatus,
+    checkReviewStatus,
+    generateReviewStatus,
+    REVIEW_STATUS_PRECEDENCE,
+};
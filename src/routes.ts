@@ -0,0 +1,155 @@
+/**
+ * Enumerate the REST routes exposed by the API for each class
+ * @module routes
+ */
+import {
+    ClassDefinition, Expose, RouteDefinition, SchemaObject,
+} from './types';
+import { PERMISSIONS, RID_PATTERN } from './constants';
+import { propertyToOpenApi, schemaRef } from './openapi';
+import type { SchemaDefinition } from './schema';
+
+const ROUTE_OPERATIONS: Record<keyof Expose, { method: RouteDefinition['method']; permission: number; byRecordId: boolean }> = {
+    QUERY: { method: 'get', permission: PERMISSIONS.READ, byRecordId: false },
+    POST: { method: 'post', permission: PERMISSIONS.CREATE, byRecordId: false },
+    GET: { method: 'get', permission: PERMISSIONS.READ, byRecordId: true },
+    PATCH: { method: 'patch', permission: PERMISSIONS.UPDATE, byRecordId: true },
+    DELETE: { method: 'delete', permission: PERMISSIONS.DELETE, byRecordId: true },
+};
+
+/**
+ * List the routes exposed for a single class
+ */
+const classRoutes = (model: ClassDefinition): RouteDefinition[] => {
+    const routes: RouteDefinition[] = [];
+
+    for (const [operation, { method, permission, byRecordId }] of Object.entries(ROUTE_OPERATIONS)) {
+        if (!model.routes[operation]) {
+            continue;
+        }
+        const route: RouteDefinition = {
+            method,
+            operation: operation as keyof Expose,
+            path: byRecordId
+                ? `${model.routeName}/{rid}`
+                : model.routeName,
+            model: model.name,
+            permission,
+        };
+
+        if (model.reverseName) {
+            route.reverseName = model.reverseName;
+        }
+        routes.push(route);
+    }
+    return routes;
+};
+
+/**
+ * List all routes exposed by the API
+ */
+const generateRouteTable = (schema: SchemaDefinition): RouteDefinition[] => {
+    const routes: RouteDefinition[] = [];
+
+    for (const model of schema.getModels()) {
+        routes.push(...classRoutes(model));
+    }
+    return routes;
+};
+
+const RID_PARAMETER = {
+    name: 'rid',
+    in: 'path',
+    required: true,
+    description: 'The record identifier',
+    schema: { type: 'string', pattern: RID_PATTERN },
+    example: '44:0',
+};
+
+const resultContent = (schema: SchemaObject) => ({
+    'application/json': {
+        schema: { type: 'object', properties: { result: schema } },
+    },
+});
+
+/**
+ * schema for the body of a partial update. This is the class schema (with the inherited properties
+ * included directly) without the required properties since any subset of the properties may be given
+ */
+const patchSchema = (schema: SchemaDefinition, modelName: string): SchemaObject => {
+    const properties: Record<string, SchemaObject> = {};
+
+    for (const prop of Object.values(schema.getProperties(modelName))) {
+        properties[prop.name] = propertyToOpenApi(schema, prop);
+    }
+    return { type: 'object', properties };
+};
+
+/**
+ * Create the OpenAPI operation object for a single route
+ */
+const routeToOperation = (schema: SchemaDefinition, route: RouteDefinition): SchemaObject => {
+    const recordSchema = { $ref: schemaRef(route.model) };
+    const operation: SchemaObject = {
+        tags: [route.model],
+        operationId: `${route.operation.toLowerCase()}${route.model}`,
+        'x-permission': Object.keys(PERMISSIONS).find((name) => PERMISSIONS[name] === route.permission),
+    };
+
+    if (route.reverseName) {
+        operation['x-reverse-name'] = route.reverseName;
+    }
+
+    if (route.operation === 'QUERY') {
+        operation.summary = `Get a list of ${route.model} records`;
+        operation.responses = {
+            200: { description: 'The matching records', content: resultContent({ type: 'array', items: recordSchema }) },
+        };
+    } else if (route.operation === 'POST') {
+        operation.summary = `Create a new ${route.model} record`;
+        operation.requestBody = { required: true, content: { 'application/json': { schema: recordSchema } } };
+        operation.responses = {
+            201: { description: 'The newly created record', content: resultContent(recordSchema) },
+        };
+    } else if (route.operation === 'GET') {
+        operation.summary = `Get a ${route.model} record by its record ID`;
+        operation.responses = {
+            200: { description: 'The record', content: resultContent(recordSchema) },
+        };
+    } else if (route.operation === 'PATCH') {
+        operation.summary = `Update an existing ${route.model} record`;
+        operation.requestBody = { required: true, content: { 'application/json': { schema: patchSchema(schema, route.model) } } };
+        operation.responses = {
+            200: { description: 'The updated record', content: resultContent(recordSchema) },
+        };
+    } else {
+        operation.summary = `Delete a ${route.model} record`;
+        operation.responses = {
+            200: { description: 'The deleted record', content: resultContent(recordSchema) },
+        };
+    }
+    return operation;
+};
+
+/**
+ * Create the paths section of an OpenAPI 3 specification from the route table
+ */
+const generatePaths = (schema: SchemaDefinition): Record<string, SchemaObject> => {
+    const paths: Record<string, SchemaObject> = {};
+
+    for (const route of generateRouteTable(schema)) {
+        if (paths[route.path] === undefined) {
+            paths[route.path] = route.path.endsWith('{rid}')
+                ? { parameters: [RID_PARAMETER] }
+                : {};
+        }
+        paths[route.path][route.method] = routeToOperation(schema, route);
+    }
+    return paths;
+};
+
+export {
+    classRoutes,
+    generatePaths,
+    generateRouteTable,
+};
@@ -1,9 +1,46 @@
 import {
-    PropertyDefinition, ClassDefinition, GraphRecord, ClassMapping, StatementRecord,
+    PropertyDefinition,
+    ClassDefinition,
+    GraphRecord,
+    ClassMapping,
+    StatementRecord,
+    SchemaObject,
+    RouteDefinition,
+    FormatRecordOptions,
+    RecordValidationFailure,
+    RecordUpdate,
+    AccessUser,
+    EffectivePermissions,
+    RecordAccess,
+    StatementRule,
+    UniqueIndexViolation,
 } from './types';
-import { ValidationError } from './error';
+import { ValidationError, AggregateValidationError } from './error';
 import { validateProperty } from './property';
 import * as sentenceTemplates from './sentenceTemplates';
+import { generateComponentSchemas } from './openapi';
+import { generateRouteTable, generatePaths } from './routes';
+import { generateJsonSchema } from './jsonSchema';
+import { generateDdlScript } from './ddl';
+import { checkRecordAccess, projectRecord, resolvePermissions } from './permissions';
+import { parseBreakRepr } from './variantNotation';
+import { checkUniqueIndices, identityHash, identityKey } from './identity';
+import { checkStatementRules } from './statementRules';
+
+/**
+ * compare two (formatted) property values, record IDs are compared by their string representation
+ */
+const valuesEqual = (value1: unknown, value2: unknown): boolean => JSON.stringify(value1) === JSON.stringify(value2);
+
+/**
+ * add the model name to an error raised by validating a property of that model
+ */
+const withModel = (err: ValidationError, modelName: string): ValidationError => {
+    if (err.model === undefined) {
+        Object.assign(err.content, { model: modelName });
+    }
+    return err;
+};
 
 class SchemaDefinition {
     readonly models: Readonly<Record<string, Readonly<ClassDefinition>>>;
@@ -59,7 +96,11 @@ class SchemaDefinition {
             model = this.normalizedModelNames[className as string] || null;
         }
         if (!model && strict) {
-            throw new ValidationError(`Unable to retrieve model: ${className || obj}`);
+            throw new ValidationError({
+                message: `Unable to retrieve model: ${className || obj}`,
+                code: 'UNKNOWN_MODEL',
+                value: className || obj,
+            });
         }
         return model;
     }
@@ -73,6 +114,20 @@ class SchemaDefinition {
         throw new Error(`Missing model corresponding to route (${routeName})`);
     }
 
+    /**
+     * List every REST route exposed by the API for the models in this schema
+     */
+    getRoutes(): RouteDefinition[] {
+        return generateRouteTable(this);
+    }
+
+    /**
+     * Create the OpenAPI 3 paths object for all routes exposed by the API
+     */
+    toOpenApiPaths(): Record<string, SchemaObject> {
+        return generatePaths(this);
+    }
+
     getModels(): ClassDefinition[] {
         return Object.values(this.models);
     }
@@ -242,6 +297,32 @@ class SchemaDefinition {
         return null;
     }
 
+    /**
+     * Create the canonical key of a record from the properties of its active index (ex. to find duplicates in a batch of records)
+     *
+     * @param modelName the name of the class of the record
+     * @param record the (formatted) record
+     */
+    identityKey(modelName: string, record: Record<string, unknown>): string {
+        return identityKey(this, modelName, record);
+    }
+
+    /**
+     * Create a short hash of the identity key of a record
+     */
+    identityHash(modelName: string, record: Record<string, unknown>): string {
+        return identityHash(this, modelName, record);
+    }
+
+    /**
+     * Find the records in a collection which violate the UNIQUE indices of their classes
+     *
+     * @param records the (formatted) records, each with its @class
+     */
+    checkUniqueIndices(records: Record<string, unknown>[]): UniqueIndexViolation[] {
+        return checkUniqueIndices(this, records);
+    }
+
     /**
      * the list of parent class names which this class inherits from
      */
@@ -256,6 +337,22 @@ class SchemaDefinition {
         return parents;
     }
 
+    /**
+     * the record-level validation hooks of a class, including those of the classes it inherits from
+     */
+    protected classValidators(modelName: string): NonNullable<ClassDefinition['validate']>[] {
+        const validators: NonNullable<ClassDefinition['validate']>[] = [];
+
+        for (const name of [modelName, ...new Set(this.ancestors(modelName))]) {
+            const { validate } = this.get(name);
+
+            if (validate) {
+                validators.push(validate);
+            }
+        }
+        return validators;
+    }
+
     children(modelName: string): string[] {
         const model = this.get(modelName);
         return this.subclassMapping[model.name] || [];
@@ -334,6 +431,85 @@ class SchemaDefinition {
         return false;
     }
 
+    /**
+     * Create the OpenAPI 3 schema objects (components.schemas) for all models in this schema
+     */
+    toOpenApiSchemas(): Record<string, SchemaObject> {
+        return generateComponentSchemas(this);
+    }
+
+    /**
+     * Create a standalone JSON Schema (draft 2020-12) document for records of the given model
+     */
+    toJsonSchema(modelName: string): SchemaObject {
+        return generateJsonSchema(this, modelName);
+    }
+
+    /**
+     * Create the OrientDB SQL script which builds this schema in an empty database
+     */
+    toDdl(): string {
+        return generateDdlScript(this);
+    }
+
+    /**
+     * Get the effective permissions of a user on a class, and optionally a specific record of that class
+     *
+     * @param user the user record with its groups expanded
+     * @param modelName the name of the class being accessed
+     * @param record the record being accessed, checked against its groupRestrictions
+     */
+    resolvePermissions(user: AccessUser, modelName: string, record?: Partial<GraphRecord>): EffectivePermissions {
+        return resolvePermissions(this, user, modelName, record);
+    }
+
+    /**
+     * Check the groupRestrictions of a record (and any expanded records it links to) against the groups of a user
+     *
+     * @param user the user record with its groups
+     * @param modelName the name of the class of the record
+     * @param record the record being accessed
+     * @returns if the record can be accessed and the paths of linked records which must be redacted
+     */
+    checkRecordAccess(user: AccessUser, modelName: string, record: Partial<GraphRecord>): RecordAccess {
+        return checkRecordAccess(this, user, modelName, record);
+    }
+
+    /**
+     * Strip (READ) or reject (CREATE/UPDATE) the properties of a record the user's groups do not have permission for
+     *
+     * @param user the user record with its groups expanded
+     * @param modelName the name of the class of the record
+     * @param record the record being returned to or input by the user
+     * @param operation the operation being performed
+     */
+    projectRecord(
+        user: AccessUser,
+        modelName: string,
+        record: Record<string, unknown>,
+        operation: 'READ' | 'CREATE' | 'UPDATE' = 'READ',
+    ): Record<string, unknown> {
+        return projectRecord(this, user, modelName, record, operation);
+    }
+
+    /**
+     * Parse a break representation (ex. p.G12 or e.(4_5)) into its validated Position record(s)
+     */
+    parseBreakRepr(repr: string): { start: Record<string, unknown>; end?: Record<string, unknown> } {
+        return parseBreakRepr(this, repr);
+    }
+
+    /**
+     * Check that the subject and conditions of a statement agree with its relevance (ex. the subject of a sensitivity statement must be a therapy)
+     *
+     * @param record the statement with its relevance, subject and conditions expanded
+     * @param rules the rules to check instead of the default rules
+     * @returns a failure for each rule the statement violates
+     */
+    checkStatementRules(record: Record<string, unknown>, rules?: StatementRule[]): RecordValidationFailure[] {
+        return checkStatementRules(this, record, rules);
+    }
+
     /**
      * cast/format a value based on a property definition
      *
@@ -345,7 +521,15 @@ class SchemaDefinition {
      */
     validate(modelName: string, propName: string, inputValue: unknown): unknown {
         const prop = this.getProperty(modelName, propName);
-        return validateProperty(prop, inputValue);
+
+        try {
+            return validateProperty(prop, inputValue);
+        } catch (err) {
+            if (err instanceof ValidationError) {
+                throw withModel(err, this.get(modelName).name);
+            }
+            throw err;
+        }
     }
 
     /**
@@ -357,16 +541,46 @@ class SchemaDefinition {
      * @param {boolean} [opt.addDefaults=false] add default values for any attributes not given (where defined)
      * @param {boolean} [opt.ignoreMissing=false] do not throw an error when a required attribute is missing
      * @param {boolean} [opt.ignoreExtra=false] do not throw an error when an unexpected value is given
+     * @param {boolean} [opt.collectErrors=false] validate all properties (including embedded records) and throw a single AggregateValidationError listing every failure
      */
     formatRecord(
         modelName: unknown,
         record: Record<string, unknown>,
-        opt: {
-            dropExtra?: boolean;
-            addDefaults?: boolean;
-            ignoreExtra?: boolean;
-            ignoreMissing?: boolean;
-        } = {},
+        opt: FormatRecordOptions & { collectErrors?: boolean } = {},
+    ): Partial<GraphRecord> {
+        const { collectErrors = false, ...formatOpt } = opt;
+
+        if (!collectErrors) {
+            return this.formatRecordAt(modelName, record, formatOpt, '', (failure, err) => {
+                throw err;
+            });
+        }
+        const failures: RecordValidationFailure[] = [];
+        const formattedRecord = this.formatRecordAt(modelName, record, formatOpt, '', (failure) => {
+            failures.push(failure);
+        });
+
+        if (failures.length) {
+            throw new AggregateValidationError({
+                message: `${failures.length} validation error(s): ${failures.map((f) => `${f.path}: ${f.message}`).join('; ')}`,
+                code: 'MULTIPLE_ERRORS',
+                model: this.get(modelName).name,
+                errors: failures,
+            });
+        }
+        return formattedRecord;
+    }
+
+    /**
+     * Implementation of formatRecord. Validation failures are passed to the onError callback
+     * along with the path to the failing property (ex. reviews[2].status)
+     */
+    protected formatRecordAt(
+        modelName: unknown,
+        record: Record<string, unknown>,
+        opt: FormatRecordOptions,
+        path: string,
+        onError: (failure: RecordValidationFailure, err: ValidationError) => void,
     ): Partial<GraphRecord> {
         const model = this.get(modelName);
         // add default options
@@ -380,6 +594,22 @@ class SchemaDefinition {
             ? {}
             : { ...record };
         const properties = this.getProperties(model.name);
+        let errorCount = 0;
+
+        const fail = (attr: string, err: ValidationError) => {
+            errorCount += 1;
+            onError({
+                path: path
+                    ? `${path}.${attr}`
+                    : attr,
+                code: err.code,
+                model: err.model,
+                constraint: err.constraint,
+                constraintValue: err.constraintValue,
+                value: err.value,
+                message: err.message,
+            }, err);
+        };
 
         if (!ignoreExtra && !dropExtra) {
             for (const attr of Object.keys(record)) {
@@ -387,21 +617,33 @@ class SchemaDefinition {
                     continue;
                 }
                 if (properties[attr] === undefined) {
-                    throw new ValidationError(`[${model.name}] unexpected attribute: ${attr}`);
+                    delete formattedRecord[attr];
+                    fail(attr, new ValidationError({
+                        message: `[${model.name}] unexpected attribute: ${attr}`,
+                        code: 'UNEXPECTED_ATTRIBUTE',
+                        constraint: 'unexpected',
+                        field: attr,
+                        model: model.name,
+                        value: record[attr],
+                    }));
                 }
             }
         }
         // if this is an edge class, check the to and from attributes
         if (model.isEdge) {
-            if (record.out) {
-                formattedRecord.out = record.out;
-            } else if (!ignoreMissing) {
-                throw new ValidationError(`[${model.name}] missing required attribute out`);
-            }
-            if (record.in) {
-                formattedRecord.in = record.in;
-            } else if (!ignoreMissing) {
-                throw new ValidationError(`[${model.name}] missing required attribute in`);
+            for (const attr of ['out', 'in']) {
+                if (record[attr]) {
+                    formattedRecord[attr] = record[attr];
+                } else if (!ignoreMissing) {
+                    fail(attr, new ValidationError({
+                        message: `[${model.name}] missing required attribute ${attr}`,
+                        code: 'MISSING_REQUIRED',
+                        constraint: 'mandatory',
+                        field: attr,
+                        model: model.name,
+                        value: record[attr],
+                    }));
+                }
             }
         }
 
@@ -423,7 +665,16 @@ class SchemaDefinition {
                     formattedRecord[prop.name] = record[prop.name];
                 }
                 if (formattedRecord[prop.name] === undefined && !ignoreMissing) {
-                    throw new ValidationError(`[${model.name}] missing required attribute ${prop.name}`);
+                    if (!model.isEdge || (prop.name !== 'out' && prop.name !== 'in')) { // edge in/out already checked above
+                        fail(prop.name, new ValidationError({
+                            message: `[${model.name}] missing required attribute ${prop.name}`,
+                            code: 'MISSING_REQUIRED',
+                            constraint: 'mandatory',
+                            field: prop.name,
+                            model: model.name,
+                        }));
+                    }
+                    continue;
                 }
             } else if (record[prop.name] !== undefined) {
                 // add any optional attributes that were specified
@@ -431,48 +682,177 @@ class SchemaDefinition {
             }
             // try the casting
             if (formattedRecord[prop.name] !== undefined) {
-                formattedRecord[prop.name] = validateProperty(prop, formattedRecord[prop.name]);
+                try {
+                    formattedRecord[prop.name] = validateProperty(prop, formattedRecord[prop.name]);
+                } catch (err) {
+                    if (!(err instanceof ValidationError)) {
+                        throw err;
+                    }
+                    fail(prop.name, withModel(err, model.name));
+                    delete formattedRecord[prop.name];
+                }
             }
         }
 
         // look for linked models
         for (let [attr, value] of Object.entries(formattedRecord)) {
-            let { linkedClass, type, iterable } = properties[attr];
+            if (properties[attr] === undefined) { // edge in/out or extra attributes that were not dropped
+                continue;
+            }
+            const { linkedClass, type, iterable } = properties[attr];
 
             if (type.startsWith('embedded') && linkedClass !== undefined && value && typeof value === 'object') {
-                if (value['@class'] && value['@class'] !== linkedClass) {
-                    // record has a class type that doesn't match the expected linkedClass, is it a subclass of it?
-                    if (this.ancestors(value['@class']).includes(linkedClass)) {
-                        linkedClass = value['@class'];
-                    } else {
-                        throw new ValidationError(`A linked class was defined (${linkedClass}) but the record is not of that class or its descendants: ${value['@class']}`);
+                const formatEmbedded = (embedded, embeddedPath: string) => {
+                    let embeddedClass = linkedClass;
+
+                    if (embedded && embedded['@class'] && embedded['@class'] !== linkedClass) {
+                        // record has a class type that doesn't match the expected linkedClass, is it a subclass of it?
+                        if (this.ancestors(embedded['@class']).includes(linkedClass)) {
+                            embeddedClass = embedded['@class'];
+                        } else {
+                            fail(embeddedPath, new ValidationError({
+                                message: `A linked class was defined (${linkedClass}) but the record is not of that class or its descendants: ${embedded['@class']}`,
+                                code: 'INVALID_LINKED_CLASS',
+                                field: attr,
+                                model: model.name,
+                                constraint: 'linkedClass',
+                                constraintValue: linkedClass,
+                                value: embedded['@class'],
+                            }));
+                            return embedded;
+                        }
                     }
-                }
-                if (type === 'embedded' && typeof value === 'object') {
-                    value = this.formatRecord(linkedClass, value as Record<string, unknown>);
-                } else if (iterable && Array.isArray(value)) {
-                    value = Array.from(
-                        value,
-                        (v) => this.formatRecord(linkedClass, v),
+                    return this.formatRecordAt(
+                        embeddedClass,
+                        embedded,
+                        {},
+                        path
+                            ? `${path}.${embeddedPath}`
+                            : embeddedPath,
+                        onError,
                     );
+                };
+
+                if (type === 'embedded') {
+                    value = formatEmbedded(value, attr);
+                } else if (iterable && Array.isArray(value)) {
+                    value = Array.from(value, (v, index) => formatEmbedded(v, `${attr}[${index}]`));
                 }
             }
             formattedRecord[attr] = value;
         }
 
         // create the generated attributes
-        if (addDefaults) {
+        if (addDefaults && errorCount === 0) {
             for (const prop of Object.values(properties)) {
                 if (prop.generationDependencies
                     && prop.generateDefault
                     && (prop.generated || formattedRecord[prop.name] === undefined)
                 ) {
-                    formattedRecord[prop.name] = prop.generateDefault(formattedRecord);
+                    try {
+                        formattedRecord[prop.name] = prop.generateDefault(formattedRecord, record);
+                    } catch (err) {
+                        if (!(err instanceof ValidationError)) {
+                            throw err;
+                        }
+                        fail(prop.name, new ValidationError({
+                            message: err.message,
+                            code: 'GENERATION_FAILED',
+                            constraint: 'generated',
+                            field: prop.name,
+                            model: model.name,
+                            cause: err,
+                        }));
+                    }
+                }
+            }
+        }
+        // checks involving more than one property are only made once the properties themselves are valid
+        if (errorCount === 0) {
+            for (const validate of this.classValidators(model.name)) {
+                try {
+                    validate(formattedRecord);
+                } catch (err) {
+                    if (!(err instanceof ValidationError)) {
+                        throw err;
+                    }
+                    fail(err.field || '', withModel(err, model.name));
                 }
             }
         }
         return formattedRecord;
     }
+
+    /**
+     * Validate a partial update (ex. PATCH) to an existing record. Changes to readOnly or generated properties
+     * are rejected and properties which are generated from other properties are re-generated from the merged record
+     *
+     * @param modelName the name of the class/model
+     * @param existing the current (formatted) record
+     * @param patch the properties to be updated
+     *
+     * @throws {ValidationError} if the patch is invalid or attempts to change a readOnly/generated property
+     */
+    formatRecordUpdate(
+        modelName: unknown,
+        existing: Record<string, unknown>,
+        patch: Record<string, unknown>,
+    ): RecordUpdate {
+        const model = this.get(modelName);
+        const properties = this.getProperties(model.name);
+        const formattedPatch = this.formatRecord(model.name, patch, {
+            dropExtra: false,
+            addDefaults: false,
+            ignoreMissing: true,
+        });
+
+        for (const [attr, value] of Object.entries(formattedPatch)) {
+            const prop = properties[attr];
+
+            if (prop && (prop.readOnly || prop.generated) && !valuesEqual(value, existing[attr])) {
+                throw new ValidationError({
+                    message: `[${model.name}] cannot update the ${prop.readOnly
+                        ? 'readOnly'
+                        : 'generated'} attribute ${attr}`,
+                    code: 'READ_ONLY',
+                    constraint: prop.readOnly
+                        ? 'readOnly'
+                        : 'generated',
+                    field: attr,
+                    model: model.name,
+                    value,
+                });
+            }
+        }
+        const record: Record<string, unknown> = { ...existing, ...formattedPatch };
+
+        for (const prop of Object.values(properties)) {
+            if (!prop.generationDependencies || !prop.generateDefault || formattedPatch[prop.name] !== undefined) {
+                continue;
+            }
+            // only re-generate user-editable values when they were not set by the user originally
+            if (
+                prop.generated
+                || existing[prop.name] === undefined
+                || valuesEqual(existing[prop.name], prop.generateDefault(existing))
+            ) {
+                record[prop.name] = prop.generateDefault(record);
+            }
+        }
+
+        for (const validate of this.classValidators(model.name)) {
+            try {
+                validate(record, Object.keys(formattedPatch));
+            } catch (err) {
+                if (!(err instanceof ValidationError)) {
+                    throw err;
+                }
+                throw withModel(err, model.name);
+            }
+        }
+        const changes = Object.keys(record).filter((attr) => !valuesEqual(record[attr], existing[attr]));
+        return { record, changes };
+    }
 }
 
 export {
@@ -0,0 +1,229 @@
+/**
+ * The phrases used in building statement sentences, by locale
+ * @module sentenceCatalogues
+ */
+import { ValidationError } from './error';
+import { SentenceCatalogue } from './types';
+
+const DEFAULT_LOCALE = 'en';
+
+const startsWithVowel = (word: string) => /^[aeiou].*/.test(word);
+
+const isFusion = (relevance: string) => relevance.endsWith(' fusion');
+
+/** lowercase the co-occurrence prefix when it does not start the sentence */
+const lowerFirst = (text: string) => `${text.slice(0, 1).toLowerCase()}${text.slice(1)}`;
+
+const enArticle = (relevance: string) => (startsWithVowel(relevance)
+    ? 'an'
+    : 'a');
+
+const enFusionArticle = (relevance: string) => (isFusion(relevance)
+    ? `${enArticle(relevance)} `
+    : '');
+
+const EN: SentenceCatalogue = {
+    and: 'and',
+    coOccurrence: 'Co-occurrence of ',
+    preclinicalWarning: 'preclinical models',
+    templates: {
+        recurrent: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} is ${keys.relevance} in ${keys.disease}`,
+        diagnosticIndicator: ({ keys, multiVariant, relevance }) => `${multiVariant}${keys.variant} is ${enArticle(relevance)} ${keys.relevance} of ${keys.subject}`,
+        diagnostic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} ${keys.relevance} of ${keys.subject}`,
+        predisposing: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} is ${keys.relevance} to ${keys.subject}`,
+        mutationHotspot: ({ keys, relevance }) => `${keys.variant} is ${enArticle(relevance)} ${keys.relevance} in ${keys.subject}`,
+        tumourigenesis: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} contributes to ${keys.relevance} of ${keys.subject}`,
+        disease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} is ${keys.relevance} in ${keys.subject}`,
+        functional: ({ keys }) => `${keys.variant} results in ${keys.relevance} of ${keys.subject}`,
+        functionalInDisease: ({ keys }) => `${keys.variant} results in ${keys.relevance} of ${keys.subject} in ${keys.disease}`,
+        feature: ({ keys, relevance }) => `${keys.subject} is ${enFusionArticle(relevance)}${keys.relevance}`,
+        featureInDisease: ({ keys, relevance }) => `${keys.subject} is ${enFusionArticle(relevance)}${keys.relevance} in ${keys.disease}`,
+        therapeutic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} is associated with ${keys.relevance} to ${keys.subject}`,
+        therapeuticInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} is associated with ${keys.relevance} to ${keys.subject} in ${keys.disease}`,
+        prognosis: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} predicts ${keys.relevance}`,
+        prognosisInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} predicts ${keys.relevance} in ${keys.disease}`,
+        prognosticIndicator: ({ keys, multiVariant, relevance }) => `${multiVariant}${keys.variant} is ${enArticle(relevance)} ${keys.relevance}`,
+        prognosticIndicatorInDisease: ({ keys, multiVariant, relevance }) => `${multiVariant}${keys.variant} is ${enArticle(relevance)} ${keys.relevance} in ${keys.disease}`,
+        eligibility: ({ keys, multiVariant }) => `Patients with ${multiVariant}${keys.variant} are eligible for ${keys.subject}`,
+        eligibilityInDisease: ({ keys, multiVariant }) => `Patients with ${multiVariant}${keys.variant} in ${keys.disease} are eligible for ${keys.subject}`,
+        singleCondition: ({ keys }) => `${keys.subject} is ${keys.relevance}`,
+        default: ({ keys }) => `Given ${keys.conditions}, ${keys.relevance} applies to ${keys.subject} (${keys.evidence})`,
+    },
+};
+
+// relevance terms are not translated so their grammatical gender is not known. The masculine article is
+// used except for fusions
+const fusionArticle = (relevance: string, article: string) => (isFusion(relevance)
+    ? `${article} `
+    : '');
+
+const FR: SentenceCatalogue = {
+    and: 'et',
+    coOccurrence: 'La co-occurrence de ',
+    preclinicalWarning: 'modèles précliniques',
+    templates: {
+        recurrent: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est ${keys.relevance} dans ${keys.disease}`,
+        diagnosticIndicator: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est un ${keys.relevance} de ${keys.subject}`,
+        diagnostic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} ${keys.relevance} de ${keys.subject}`,
+        predisposing: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est ${keys.relevance} à ${keys.subject}`,
+        mutationHotspot: ({ keys }) => `${keys.variant} est un ${keys.relevance} dans ${keys.subject}`,
+        tumourigenesis: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} contribue à ${keys.relevance} de ${keys.subject}`,
+        disease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est ${keys.relevance} dans ${keys.subject}`,
+        functional: ({ keys }) => `${keys.variant} entraîne ${keys.relevance} de ${keys.subject}`,
+        functionalInDisease: ({ keys }) => `${keys.variant} entraîne ${keys.relevance} de ${keys.subject} dans ${keys.disease}`,
+        feature: ({ keys, relevance }) => `${keys.subject} est ${fusionArticle(relevance, 'une')}${keys.relevance}`,
+        featureInDisease: ({ keys, relevance }) => `${keys.subject} est ${fusionArticle(relevance, 'une')}${keys.relevance} dans ${keys.disease}`,
+        therapeutic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est associé à ${keys.relevance} à ${keys.subject}`,
+        therapeuticInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est associé à ${keys.relevance} à ${keys.subject} dans ${keys.disease}`,
+        prognosis: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} prédit ${keys.relevance}`,
+        prognosisInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} prédit ${keys.relevance} dans ${keys.disease}`,
+        prognosticIndicator: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est un ${keys.relevance}`,
+        prognosticIndicatorInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} est un ${keys.relevance} dans ${keys.disease}`,
+        eligibility: ({ keys, multiVariant }) => `Les patients avec ${lowerFirst(multiVariant)}${keys.variant} sont éligibles à ${keys.subject}`,
+        eligibilityInDisease: ({ keys, multiVariant }) => `Les patients avec ${lowerFirst(multiVariant)}${keys.variant} dans ${keys.disease} sont éligibles à ${keys.subject}`,
+        singleCondition: ({ keys }) => `${keys.subject} est ${keys.relevance}`,
+        default: ({ keys }) => `Étant donné ${keys.conditions}, ${keys.relevance} s'applique à ${keys.subject} (${keys.evidence})`,
+    },
+};
+
+const ES: SentenceCatalogue = {
+    and: 'y',
+    coOccurrence: 'La co-ocurrencia de ',
+    preclinicalWarning: 'modelos preclínicos',
+    templates: {
+        recurrent: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} es ${keys.relevance} en ${keys.disease}`,
+        diagnosticIndicator: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} es un ${keys.relevance} de ${keys.subject}`,
+        diagnostic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} ${keys.relevance} de ${keys.subject}`,
+        predisposing: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} es ${keys.relevance} a ${keys.subject}`,
+        mutationHotspot: ({ keys }) => `${keys.variant} es un ${keys.relevance} en ${keys.subject}`,
+        tumourigenesis: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} contribuye a ${keys.relevance} de ${keys.subject}`,
+        disease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} es ${keys.relevance} en ${keys.subject}`,
+        functional: ({ keys }) => `${keys.variant} resulta en ${keys.relevance} de ${keys.subject}`,
+        functionalInDisease: ({ keys }) => `${keys.variant} resulta en ${keys.relevance} de ${keys.subject} en ${keys.disease}`,
+        feature: ({ keys, relevance }) => `${keys.subject} es ${fusionArticle(relevance, 'una')}${keys.relevance}`,
+        featureInDisease: ({ keys, relevance }) => `${keys.subject} es ${fusionArticle(relevance, 'una')}${keys.relevance} en ${keys.disease}`,
+        therapeutic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} está asociado con ${keys.relevance} a ${keys.subject}`,
+        therapeuticInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} está asociado con ${keys.relevance} a ${keys.subject} en ${keys.disease}`,
+        prognosis: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} predice ${keys.relevance}`,
+        prognosisInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} predice ${keys.relevance} en ${keys.disease}`,
+        prognosticIndicator: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} es un ${keys.relevance}`,
+        prognosticIndicatorInDisease: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} es un ${keys.relevance} en ${keys.disease}`,
+        eligibility: ({ keys, multiVariant }) => `Los pacientes con ${lowerFirst(multiVariant)}${keys.variant} son elegibles para ${keys.subject}`,
+        eligibilityInDisease: ({ keys, multiVariant }) => `Los pacientes con ${lowerFirst(multiVariant)}${keys.variant} en ${keys.disease} son elegibles para ${keys.subject}`,
+        singleCondition: ({ keys }) => `${keys.subject} es ${keys.relevance}`,
+        default: ({ keys }) => `Dado ${keys.conditions}, ${keys.relevance} se aplica a ${keys.subject} (${keys.evidence})`,
+    },
+};
+
+/**
+ * the sentence catalogues by locale. Other languages may be supported by registering a catalogue for them
+ * (see registerCatalogue)
+ */
+const SENTENCE_CATALOGUES: Record<string, SentenceCatalogue> = {
+    en: EN,
+    es: ES,
+    fr: FR,
+};
+
+/**
+ * Get the sentence catalogue for a locale. Regional locales (ex. fr-CA) fall back to the catalogue of their language
+ *
+ * @param locale the locale (ex. 'fr')
+ *
+ * @throws {ValidationError} when there is no catalogue for the locale
+ */
+const getCatalogue = (locale: string = DEFAULT_LOCALE): SentenceCatalogue => {
+    const [language] = locale.toLowerCase().split(/[-_]/);
+    const catalogue = SENTENCE_CATALOGUES[locale] || SENTENCE_CATALOGUES[language];
+
+    if (!catalogue) {
+        throw new ValidationError({
+            message: `No sentence catalogue for the locale (${locale}). Expected one of ${Object.keys(SENTENCE_CATALOGUES).join(', ')}`,
+            value: locale,
+        });
+    }
+    return catalogue;
+};
+
+/**
+ * Find the phrases and templates missing from a catalogue. Every catalogue must have the phrases and templates
+ * of the default catalogue
+ */
+const missingCatalogueKeys = (catalogue: Partial<SentenceCatalogue>): string[] => {
+    const missing: string[] = (['and', 'coOccurrence', 'preclinicalWarning'] as const)
+        .filter((name) => typeof catalogue[name] !== 'string');
+    const templates = (catalogue.templates || {}) as Record<string, unknown>;
+
+    for (const name of Object.keys(EN.templates)) {
+        if (typeof templates[name] !== 'function') {
+            missing.push(`templates.${name}`);
+        }
+    }
+    return missing;
+};
+
+/**
+ * Add a sentence catalogue for a locale
+ *
+ * @param locale the locale (ex. 'de')
+ * @param catalogue the phrases and templates used in building statement sentences for the locale
+ * @param catalogues the catalogues to add the catalogue to
+ *
+ * @throws {ValidationError} when there is already a catalogue for the locale or the catalogue is missing any of
+ * the phrases or templates of the default catalogue
+ */
+const registerCatalogue = (
+    locale: string,
+    catalogue: SentenceCatalogue,
+    catalogues: Record<string, SentenceCatalogue> = SENTENCE_CATALOGUES,
+): void => {
+    if (catalogues[locale]) {
+        throw new ValidationError({
+            message: `A sentence catalogue for the locale (${locale}) already exists`,
+            value: locale,
+        });
+    }
+    const missing = missingCatalogueKeys(catalogue);
+
+    if (missing.length) {
+        throw new ValidationError({
+            message: `Unable to add the sentence catalogue for the locale (${locale}). Missing ${missing.join(', ')}`,
+            value: missing,
+        });
+    }
+    catalogues[locale] = catalogue;
+};
+
+/**
+ * Remove the sentence catalogue for a locale. The catalogue of the default locale may not be removed
+ *
+ * @returns the catalogue removed or null if there was no catalogue for the locale
+ *
+ * @throws {ValidationError} when the locale is the default locale
+ */
+const removeCatalogue = (
+    locale: string,
+    catalogues: Record<string, SentenceCatalogue> = SENTENCE_CATALOGUES,
+): SentenceCatalogue | null => {
+    if (locale === DEFAULT_LOCALE) {
+        throw new ValidationError({
+            message: `The sentence catalogue for the default locale (${DEFAULT_LOCALE}) may not be removed`,
+            value: locale,
+        });
+    }
+    const catalogue = catalogues[locale];
+
+    if (!catalogue) {
+        return null;
+    }
+    delete catalogues[locale];
+    return catalogue;
+};
+
+export {
+    DEFAULT_LOCALE,
+    getCatalogue,
+    registerCatalogue,
+    removeCatalogue,
+    SENTENCE_CATALOGUES,
+};
@@ -1,7 +1,12 @@
 /* eslint-disable no-template-curly-in-string */
-import { naturalListJoin } from './util';
+import { naturalListJoin, recordId } from './util';
 import { GraphRecordId } from './constants';
-import { StatementRecord } from './types';
+import { ValidationError } from './error';
+import { DEFAULT_LOCALE, getCatalogue } from './sentenceCatalogues';
+import { TEMPLATE_RULES, templateRuleContext } from './templateRules';
+import {
+    SentenceSlotToken, SentenceToken, StatementRecord, TemplateNode,
+} from './types';
 
 const TEMPLATE_KEYS = {
     disease: '{conditions:disease}',
@@ -14,7 +19,7 @@ const TEMPLATE_KEYS = {
     preclinicalWarning: '{preclinicalWarning}',
 } as const;
 
-const PRECLINICAL_WARNING = 'preclinical models';
+const PRECLINICAL_WARNING = getCatalogue(DEFAULT_LOCALE).preclinicalWarning;
 
 const DEFAULT_TEMPLATE = `Given ${
     TEMPLATE_KEYS.conditions
@@ -84,193 +89,86 @@ const addEvidence = (
  *
  * @param {object} record statement record
  * @param {object} [keys=TEMPLATE_KEYS] template key-value pairs
+ * @param {string} [locale=DEFAULT_LOCALE] the language of the template (see SENTENCE_CATALOGUES)
+ * @param {Array} [rules=TEMPLATE_RULES] the rules for choosing the template in order of precedence
  */
-const chooseDefaultTemplate = (record: StatementRecord, keys = TEMPLATE_KEYS) => {
-    const conditionTypes = record.conditions.map((c) => c['@class'].toLowerCase());
-    const multiVariant = conditionTypes.filter((t) => t.endsWith('variant')).length > 1
-        ? 'Co-occurrence of '
-        : '';
-    const hasVariant = conditionTypes.some((t) => t.endsWith('variant'));
-    const hasDisease = conditionTypes.includes('disease');
-    const relevance = record.relevance.name || record.relevance.displayName;
-    const subjectType = record.subject
-        ? record.subject['@class'].toLowerCase()
-        : '';
-
-    const vowel = /^[aeiou].*/.exec(relevance)
-        ? 'an'
-        : '';
-
-    if (hasDisease && hasVariant && relevance === 'recurrent') {
-        return addEvidence(
-            `${multiVariant}${keys.variant} is ${keys.relevance} in ${keys.disease}`,
-            record,
-        );
-    }
-    if (
-        subjectType === 'disease'
-        && hasVariant
-    ) {
-        if (relevance === 'diagnostic indicator') {
-            return addEvidence(
-                `${multiVariant}${keys.variant} is ${vowel || 'a'} ${keys.relevance} of ${keys.subject}`,
-                record,
-            );
-        }
-        if (relevance.includes('diagnos')) {
-            return addEvidence(
-                `${multiVariant}${keys.variant} ${keys.relevance} of ${keys.subject}`,
-                record,
-            );
-        }
-        if (relevance.includes('predisposing')) {
-            return addEvidence(
-                `${multiVariant}${keys.variant} is ${keys.relevance} to ${keys.subject}`,
-                record,
-            );
-        }
-        if (relevance === 'mutation hotspot') {
-            return addEvidence(
-                `${keys.variant} is ${vowel || 'a'} ${keys.relevance} in ${keys.subject}`,
-                record,
-            );
-        }
-        if (relevance === 'tumourigenesis') {
-            return addEvidence(
-                `${multiVariant}${keys.variant} contributes to ${keys.relevance} of ${keys.subject}`,
-                record,
-            );
-        }
-        return addEvidence(
-            `${multiVariant}${keys.variant} is ${keys.relevance} in ${keys.subject}`,
-            record,
-        );
+const chooseDefaultTemplate = (
+    record: StatementRecord,
+    keys = TEMPLATE_KEYS,
+    locale = DEFAULT_LOCALE,
+    rules = TEMPLATE_RULES,
+) => {
+    const { coOccurrence, templates } = getCatalogue(locale);
+    const context = templateRuleContext(record);
+    const rule = rules.find((r) => r.matches(context));
+    const args = {
+        keys,
+        relevance: context.relevance,
+        multiVariant: context.conditionTypes.filter((t) => t.endsWith('variant')).length > 1
+            ? coOccurrence
+            : '',
+    };
+
+    if (!rule) {
+        return addEvidence(templates.default(args), record);
     }
+    const template = typeof rule.template === 'function'
+        ? rule.template
+        : templates[rule.template];
+    return addEvidence(template(args), record);
+};
 
-    if (subjectType === 'feature' || subjectType.endsWith('variant')) {
-        const isFunctional = relevance.includes('function')
-            || relevance.includes(' expression');
-
-        if (isFunctional && hasVariant) {
-            if (!hasDisease) {
-                return addEvidence(
-                    `${keys.variant} results in ${keys.relevance} of ${keys.subject}`,
-                    record,
-                );
-            }
-            return addEvidence(
-                `${keys.variant} results in ${keys.relevance} of ${keys.subject} in ${keys.disease}`,
-                record,
-            );
-        }
-        let article = '';
-
-        if (relevance.endsWith(' fusion')) {
-            article = /^[aeiou].*/.exec(relevance)
-                ? 'an '
-                : 'a ';
-        }
+/** a record (or fixed text) filling a template key */
+interface SentenceTerm {
+    text: string;
+    record?: Record<string, unknown>;
+}
 
-        if (!hasDisease) {
-            return addEvidence(
-                `${keys.subject} is ${article}${keys.relevance}`,
-                record,
-            );
-        }
-        return addEvidence(
-            `${keys.subject} is ${article}${keys.relevance} in ${keys.disease}`,
-            record,
-        );
-    }
-
-    if (subjectType === 'therapy' && hasVariant) {
-        if (hasDisease) {
-            return addEvidence(
-                `${multiVariant}${keys.variant} is associated with ${keys.relevance} to ${keys.subject} in ${keys.disease}`,
-                record,
-            );
+/**
+ * Choose the template for a statement in the given locale. Custom templates are used as given but stored
+ * templates which were generated in the default locale are replaced by the template generated for the locale
+ */
+const chooseTemplate = (record: StatementRecord, keys = TEMPLATE_KEYS, locale = DEFAULT_LOCALE): string => {
+    const { templates } = getCatalogue(locale);
+
+    const generate = (language: string) => {
+        try {
+            return chooseDefaultTemplate(record, keys, language);
+        } catch (err) {
+            return templates.default({ keys, relevance: '', multiVariant: '' });
         }
-        return addEvidence(
-            `${multiVariant}${keys.variant} is associated with ${keys.relevance} to ${keys.subject}`,
-            record,
-        );
-    }
+    };
 
-    // prognostic statements
-    if (!subjectType || record.subject.displayName.toLowerCase() === 'patient') {
-        let template;
+    const custom = record.displayNameTemplate as string | undefined;
 
-        if (relevance.endsWith('prognosis')) {
-            template = `${multiVariant}${keys.variant} predicts ${keys.relevance}`;
-        } else if (relevance.endsWith('indicator')) { // e.g. prognostic indicator
-            template = `${multiVariant}${keys.variant} is ${vowel || 'a'} ${keys.relevance}`;
-        }
-        if (template) {
-            if (hasDisease) {
-                template += ` in ${keys.disease}`;
-            }
-            return addEvidence(
-                template,
-                record,
-            );
-        }
+    if (!custom) {
+        return generate(locale);
     }
-
-    // eligibility to clinical trials statements
-    if (hasVariant && relevance === 'eligibility' && subjectType === 'clinicaltrial') {
-        if (hasDisease) {
-            return addEvidence(
-                `Patients with ${multiVariant}${keys.variant} in ${keys.disease} are eligible for ${keys.subject}`,
-                record,
-            );
-        }
-        return addEvidence(
-            `Patients with ${multiVariant}${keys.variant} are eligible for ${keys.subject}`,
-            record,
-        );
+    if (locale !== DEFAULT_LOCALE && [DEFAULT_TEMPLATE, generate(DEFAULT_LOCALE)].includes(custom)) {
+        return generate(locale);
     }
-
-    // default for a single conditions class statement
-    if (conditionTypes.length === 1) {
-        return addEvidence(
-            `${keys.subject} is ${keys.relevance}`,
-            record,
-        );
-    }
-
-    // default
-    return addEvidence(
-        DEFAULT_TEMPLATE,
-        record,
-    );
+    return custom;
 };
 
 /**
- * builds the sentence representing the preview of a statement record
+ * Choose the template for a statement and find the terms to substitute for each template key found in it
  *
- * @param {function} previewFunc the preview function
- * @param {object} record the statement record to build the sentence for
- * @param {object} [keys=TEMPLATE_KEYS] template key-value pairs
+ * @returns the template and the terms for each key (by name) in the order they are highlighted
  */
-const generateStatementSentence = (
+const collectSubstitutions = (
     previewFunc: (arg0: Record<string, unknown>)=> string,
     record: StatementRecord,
     keys = TEMPLATE_KEYS,
-) => {
-    let template;
-
-    try {
-        template = record.displayNameTemplate || chooseDefaultTemplate(record);
-    } catch (err) {
-        template = DEFAULT_TEMPLATE;
-    }
+    locale = DEFAULT_LOCALE,
+): { template: string; substitutions: Partial<Record<keyof typeof TEMPLATE_KEYS, SentenceTerm[]>> } => {
+    const template = chooseTemplate(record, keys, locale);
     // detect the condition substitutions that are present
     const replacementsFound: string[] = [];
 
     const conditionsUsed: GraphRecordId[] = [];
-    const substitutions: Record<string, string> = {};
-    const highlighted: string[] = [];
+    const substitutions: Partial<Record<keyof typeof TEMPLATE_KEYS, SentenceTerm[]>> = {};
     const conditions = (record.conditions || []).map((rec) => ({ ...rec }));
+    const terms = (records: Record<string, unknown>[]): SentenceTerm[] => records.map((rec) => ({ text: previewFunc(rec), record: rec }));
 
     for (const key of Object.values(keys)) {
         if (template.includes(key)) {
@@ -281,8 +179,7 @@ const generateStatementSentence = (
     // don't re-use the subject if it is placed elsewhere
     if (replacementsFound.includes(keys.subject) && record.subject) {
         conditionsUsed.push(record.subject['@rid']);
-        substitutions[keys.subject] = previewFunc(record.subject);
-        highlighted.push(substitutions[keys.subject]);
+        substitutions.subject = terms([record.subject]);
     }
 
     if (replacementsFound.includes(keys.variant)) {
@@ -296,9 +193,7 @@ const generateStatementSentence = (
         }
 
         if (variants.length) {
-            const words = variants.map((c) => previewFunc(c));
-            highlighted.push(...words);
-            substitutions[keys.variant] = naturalListJoin(words);
+            substitutions.variant = terms(variants);
         }
     }
 
@@ -313,9 +208,7 @@ const generateStatementSentence = (
         }
 
         if (diseases.length) {
-            const words = diseases.map((c) => previewFunc(c));
-            highlighted.push(...words);
-            substitutions[keys.disease] = naturalListJoin(words);
+            substitutions.disease = terms(diseases);
         }
     }
 
@@ -324,29 +217,23 @@ const generateStatementSentence = (
         const rest = conditions.filter((c) => !conditionsUsed.includes(c['@rid']));
 
         if (rest.length) {
-            const words = rest.map((c) => previewFunc(c));
-            highlighted.push(...words);
-            substitutions[keys.conditions] = naturalListJoin(words);
+            substitutions.conditions = terms(rest);
         }
     }
 
     // add the relevance
     if (replacementsFound.includes(keys.relevance) && record.relevance) {
-        substitutions[keys.relevance] = previewFunc(record.relevance);
-        highlighted.push(substitutions[keys.relevance]);
+        substitutions.relevance = terms([record.relevance]);
     }
 
     // add the preclinical warning
     if (replacementsFound.includes(keys.preclinicalWarning)) {
-        substitutions[keys.preclinicalWarning] = PRECLINICAL_WARNING;
-        highlighted.push(substitutions[keys.preclinicalWarning]);
+        substitutions.preclinicalWarning = [{ text: getCatalogue(locale).preclinicalWarning }];
     }
 
     // add the evidence
     if (replacementsFound.includes(keys.evidence) && record.evidence && record.evidence.length) {
-        const words = record.evidence.map((e) => previewFunc(e));
-        highlighted.push(...words);
-        substitutions[keys.evidence] = naturalListJoin(words);
+        substitutions.evidence = terms(record.evidence);
     }
 
     // add the evidence level
@@ -355,25 +242,362 @@ const generateStatementSentence = (
         && record.evidenceLevel
         && record.evidenceLevel.length
     ) {
-        const words = record.evidenceLevel.map((e) => previewFunc(e));
-        highlighted.push(...words);
-        substitutions[keys.evidenceLevel] = naturalListJoin(words);
+        substitutions.evidenceLevel = terms(record.evidenceLevel);
     }
+    return { template, substitutions };
+};
 
+/**
+ * builds the sentence representing the preview of a statement record
+ *
+ * @param {function} previewFunc the preview function
+ * @param {object} record the statement record to build the sentence for
+ * @param {object} [keys=TEMPLATE_KEYS] template key-value pairs
+ * @param {string} [locale=DEFAULT_LOCALE] the language of the sentence (see SENTENCE_CATALOGUES)
+ */
+const generateStatementSentence = (
+    previewFunc: (arg0: Record<string, unknown>)=> string,
+    record: StatementRecord,
+    keys = TEMPLATE_KEYS,
+    locale = DEFAULT_LOCALE,
+) => {
+    const { template, substitutions } = collectSubstitutions(previewFunc, record, keys, locale);
+    const conjunction = getCatalogue(locale).and;
+    const highlighted: string[] = [];
     let content = template;
 
-    Object.keys(substitutions).forEach((key) => {
-        content = content.replace(key, substitutions[key]);
+    Object.entries(substitutions).forEach(([name, terms]) => {
+        const words = (terms as SentenceTerm[]).map((term) => term.text);
+        highlighted.push(...words);
+        content = content.replace(keys[name], naturalListJoin(words, conjunction));
     });
 
     return { content, highlighted };
 };
 
+/**
+ * Builds the sentence representing a statement record as a list of tokens. Text from the template is
+ * given as text tokens and the records substituted for template keys are given as slot tokens
+ *
+ * @param previewFunc the preview function
+ * @param record the statement record to build the sentence for
+ * @param keys template key-value pairs
+ * @param locale the language of the sentence (see SENTENCE_CATALOGUES)
+ *
+ * @example
+ * > generateStatementTokens(previewFunc, statement)
+ * [
+ *     { type: 'slot', key: 'variant', text: 'KRAS:p.G12D', '@rid': '#1:2', '@class': 'PositionalVariant' },
+ *     { type: 'text', text: ' is ' },
+ *     ...
+ * ]
+ */
+const generateStatementTokens = (
+    previewFunc: (arg0: Record<string, unknown>)=> string,
+    record: StatementRecord,
+    keys = TEMPLATE_KEYS,
+    locale = DEFAULT_LOCALE,
+): SentenceToken[] => {
+    const { template, substitutions } = collectSubstitutions(previewFunc, record, keys, locale);
+    const conjunction = getCatalogue(locale).and;
+    const tokens: SentenceToken[] = [];
+
+    const addText = (text: string) => {
+        if (text) {
+            tokens.push({ type: 'text', text });
+        }
+    };
+    // as in generateStatementSentence, only the first occurrence of each key is substituted
+    const found = Object.entries(substitutions)
+        .map(([name, terms]) => ({ name, terms: terms as SentenceTerm[], start: template.indexOf(keys[name]) }))
+        .filter(({ start }) => start >= 0)
+        .sort((a, b) => a.start - b.start);
+    let position = 0;
+
+    for (const { name, terms, start } of found) {
+        if (start < position) {
+            continue;
+        }
+        addText(template.slice(position, start));
+        terms.forEach(({ text, record: termRecord }, index) => {
+            if (index > 0) {
+                addText(index === terms.length - 1
+                    ? ` ${conjunction} `
+                    : ', ');
+            }
+            tokens.push({
+                type: 'slot',
+                key: name,
+                text,
+                '@rid': termRecord?.['@rid']
+                    ? `${termRecord['@rid']}`
+                    : null,
+                '@class': (termRecord?.['@class'] as string | undefined) || null,
+            });
+        });
+        position = start + keys[name].length;
+    }
+    addText(template.slice(position));
+    return tokens;
+};
+
+/**
+ * Render sentence tokens as plain text
+ */
+const renderTokensAsText = (tokens: SentenceToken[]): string => tokens.map((token) => token.text).join('');
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render sentence tokens as HTML. Slots are wrapped in a link when the link function returns a URL for them
+ * and are otherwise emphasized
+ *
+ * @param tokens the sentence tokens
+ * @param link creates the URL to link a slot to (ex. the page for its record)
+ *
+ * @example
+ * > renderTokensAsHtml(tokens, (token) => token['@rid'] && `/view/${token['@class']}/${token['@rid'].slice(1)}`)
+ * '<a href="/view/PositionalVariant/1:2" data-key="variant">KRAS:p.G12D</a> is ...'
+ */
+const renderTokensAsHtml = (
+    tokens: SentenceToken[],
+    link: (token: SentenceSlotToken) => string | null = () => null,
+): string => tokens.map((token) => {
+    const text = escapeHtml(token.text);
+
+    if (token.type === 'text') {
+        return text;
+    }
+    const url = link(token);
+
+    if (url) {
+        return `<a href="${escapeHtml(url)}" data-key="${token.key}">${text}</a>`;
+    }
+    return `<strong data-key="${token.key}">${text}</strong>`;
+}).join('');
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+/**
+ * Render sentence tokens as Markdown. Slots are linked when the link function returns a URL for them and are otherwise bold
+ *
+ * @param tokens the sentence tokens
+ * @param link creates the URL to link a slot to (ex. the page for its record)
+ */
+const renderTokensAsMarkdown = (
+    tokens: SentenceToken[],
+    link: (token: SentenceSlotToken) => string | null = () => null,
+): string => tokens.map((token) => {
+    const text = escapeMarkdown(token.text);
+
+    if (token.type === 'text') {
+        return text;
+    }
+    const url = link(token);
+
+    if (url) {
+        return `[${text}](${url.replace(/[()]/g, (char) => encodeURIComponent(char))})`;
+    }
+    return `**${text}**`;
+}).join('');
+
+/**
+ * Parse a displayNameTemplate into its literal text and placeholders
+ *
+ * @param template the template string
+ * @param keys template key-value pairs
+ *
+ * @returns the text and key nodes in the order they appear in the template. Placeholders which
+ * are not one of the template keys are given with a null key
+ *
+ * @throws {ValidationError} when the braces in the template are not balanced
+ *
+ * @example
+ * > parseTemplate('{conditions:variant} is {relevance}')
+ * [
+ *     { type: 'key', text: '{conditions:variant}', key: 'variant', start: 0 },
+ *     { type: 'text', text: ' is ', start: 20 },
+ *     { type: 'key', text: '{relevance}', key: 'relevance', start: 24 },
+ * ]
+ */
+const parseTemplate = (template: string, keys = TEMPLATE_KEYS): TemplateNode[] => {
+    const nodes: TemplateNode[] = [];
+    const names = Object.keys(keys) as (keyof typeof TEMPLATE_KEYS)[];
+
+    const unbalanced = (message: string, position: number) => new ValidationError({
+        message: `Unbalanced braces in the template. ${message} (position ${position})`,
+        field: 'displayNameTemplate',
+        value: template,
+    });
+    let start = 0,
+        open = -1;
+
+    for (let position = 0; position < template.length; position++) {
+        if (template[position] === '{') {
+            if (open >= 0) {
+                throw unbalanced('Placeholders cannot be nested', position);
+            }
+            if (position > start) {
+                nodes.push({ type: 'text', text: template.slice(start, position), start });
+            }
+            open = position;
+        } else if (template[position] === '}') {
+            if (open < 0) {
+                throw unbalanced('Closing brace without an opening brace', position);
+            }
+            const text = template.slice(open, position + 1);
+            nodes.push({
+                type: 'key', text, key: names.find((name) => keys[name] === text) || null, start: open,
+            });
+            open = -1;
+            start = position + 1;
+        }
+    }
+
+    if (open >= 0) {
+        throw unbalanced('Opening brace without a closing brace', open);
+    }
+    if (start < template.length) {
+        nodes.push({ type: 'text', text: template.slice(start), start });
+    }
+    return nodes;
+};
+
+/**
+ * Check if a template (by the keys it uses) shows the subject of a statement. The subject is only listed with
+ * the conditions when it is one of them and then only under the key for its class (variants with the variant
+ * key, diseases with the disease key and anything else with the conditions key). When the subject has not been
+ * expanded its class is not known and any of the conditions keys is accepted. The patient is implied by the
+ * sentence (ex. prognostic statements) and does not need to be shown
+ */
+const showsSubject = (record: { subject?: unknown; conditions?: unknown }, used: string[]): boolean => {
+    if (used.includes('subject')) {
+        return true;
+    }
+    const { '@class': subjectClass, displayName } = (typeof record.subject === 'object'
+        ? record.subject
+        : {}) as { '@class'?: string; displayName?: string };
+    const conditions = Array.isArray(record.conditions)
+        ? record.conditions.map(recordId)
+        : [];
+
+    if (displayName?.toLowerCase() === 'patient') {
+        return true;
+    }
+    if (!conditions.includes(recordId(record.subject))) {
+        return false;
+    }
+    if (!subjectClass) {
+        return ['variant', 'disease', 'conditions'].some((key) => used.includes(key));
+    }
+    if (subjectClass.toLowerCase().includes('variant') && used.includes('variant')) {
+        return true;
+    }
+    if (subjectClass === 'Disease' && used.includes('disease')) {
+        return true;
+    }
+    return used.includes('conditions');
+};
+
+/**
+ * Find the problems with a displayNameTemplate. Placeholders must be one of the template keys and may only be
+ * used once (only the first occurrence is substituted). When the statement is given and has a subject, the
+ * template must show the subject (see showsSubject)
+ *
+ * @param template the template string
+ * @param record the statement the template is used for
+ * @param keys template key-value pairs
+ *
+ * @returns a message for each problem found
+ */
+const checkTemplate = (
+    template: string,
+    record?: { subject?: unknown; conditions?: unknown } | null,
+    keys = TEMPLATE_KEYS,
+): string[] => {
+    let nodes: TemplateNode[];
+
+    try {
+        nodes = parseTemplate(template, keys);
+    } catch (err) {
+        return [(err as ValidationError).message];
+    }
+    const problems: string[] = [];
+    const used: string[] = [];
+
+    for (const node of nodes) {
+        if (node.type !== 'key') {
+            continue;
+        }
+        if (!node.key) {
+            problems.push(`Unknown template key ${node.text} (expected one of ${Object.values(keys).join(', ')})`);
+        } else if (used.includes(node.key)) {
+            problems.push(`Duplicate template key ${node.text}`);
+        } else {
+            used.push(node.key);
+        }
+    }
+
+    if (record?.subject && !showsSubject(record, used)) {
+        problems.push(`The template must include ${keys.subject} when the statement has a subject`);
+    }
+    return problems;
+};
+
+/**
+ * check constraint for the displayNameTemplate property. Whether the template shows the subject depends on the
+ * rest of the statement and is checked separately (see validateTemplate)
+ */
+const validTemplate = (template?: unknown): boolean => typeof template !== 'string' || checkTemplate(template).length === 0;
+
+/**
+ * Check that the displayNameTemplate of a statement shows its subject. Problems with the template itself are
+ * left to the property check (see validTemplate)
+ *
+ * @throws {ValidationError} when the template does not show the subject (see showsSubject)
+ */
+const validateTemplate = (
+    record: { displayNameTemplate?: unknown; subject?: unknown; conditions?: unknown },
+    keys = TEMPLATE_KEYS,
+): void => {
+    const { displayNameTemplate: template } = record;
+
+    if (typeof template !== 'string' || !record.subject || !validTemplate(template)) {
+        return;
+    }
+    const used = parseTemplate(template, keys).map((node) => (node.type === 'key'
+        ? node.key
+        : null)).filter((key): key is string => Boolean(key));
+
+    if (!showsSubject(record, used)) {
+        throw new ValidationError({
+            message: `Invalid displayNameTemplate (${template}): The template must include ${keys.subject} when the statement has a subject`,
+            code: 'CHECK_FAILED',
+            field: 'displayNameTemplate',
+            constraint: 'showsSubject',
+            value: template,
+        });
+    }
+};
+
 export {
     addEvidence,
+    checkTemplate,
     generateStatementSentence,
+    generateStatementTokens,
+    parseTemplate,
+    renderTokensAsHtml,
+    renderTokensAsMarkdown,
+    renderTokensAsText,
     chooseDefaultTemplate,
     DEFAULT_TEMPLATE,
     PRECLINICAL_WARNING,
     TEMPLATE_KEYS,
+    validateTemplate,
+    validTemplate,
 };
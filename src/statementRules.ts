@@ -0,0 +1,205 @@
+/**
+ * Check that the subject and conditions of a statement make sense for its relevance
+ * @module statementRules
+ */
+import { RecordValidationFailure, StatementRule } from './types';
+import { AggregateValidationError, ValidationError } from './error';
+import type { SchemaDefinition } from './schema';
+import { relevanceCategory } from './templateRules';
+
+/**
+ * the default rules, by statement category (see relevanceCategory). This may be modified, or a different
+ * list of rules passed to checkStatementRules, to change the rules applied
+ */
+const STATEMENT_RULES: StatementRule[] = [
+    {
+        name: 'therapeutic subject',
+        category: 'therapeutic',
+        subjectClasses: ['Therapy'],
+        message: 'the subject of a therapeutic statement must be a therapy',
+    },
+    {
+        name: 'diagnostic subject',
+        category: 'diagnostic',
+        subjectClasses: ['Disease'],
+        message: 'the subject of a diagnostic statement must be a disease',
+    },
+    {
+        name: 'diagnostic conditions',
+        category: 'diagnostic',
+        conditionClasses: ['Variant'],
+        message: 'the conditions of a diagnostic statement must include a variant',
+    },
+    {
+        name: 'prognostic subject',
+        category: 'prognostic',
+        subjectClasses: ['Vocabulary', 'Disease'],
+        optionalSubject: true,
+        message: 'the subject of a prognostic statement must be the patient (vocabulary) or a disease',
+    },
+    {
+        name: 'prognostic conditions',
+        category: 'prognostic',
+        conditionClasses: ['Variant', 'Signature'],
+        message: 'the conditions of a prognostic statement must include a variant or signature',
+    },
+    {
+        name: 'functional subject',
+        category: 'functional',
+        // functional statements about a variant in a disease use the disease as the subject
+        subjectClasses: ['Feature', 'Variant', 'Disease'],
+        message: 'the subject of a functional statement must be a feature, variant or disease',
+    },
+    {
+        name: 'functional conditions',
+        category: 'functional',
+        conditionClasses: ['Variant'],
+        message: 'the conditions of a functional statement must include a variant',
+    },
+    {
+        name: 'eligibility subject',
+        category: 'eligibility',
+        subjectClasses: ['ClinicalTrial'],
+        message: 'the subject of an eligibility statement must be a clinical trial',
+    },
+    {
+        name: 'eligibility conditions',
+        category: 'eligibility',
+        conditionClasses: ['Variant'],
+        message: 'the conditions of an eligibility statement must include a variant',
+    },
+    {
+        name: 'recurrent variant',
+        category: 'recurrent',
+        conditionClasses: ['Variant'],
+        message: 'the conditions of a recurrent statement must include a variant',
+    },
+    {
+        name: 'recurrent disease',
+        category: 'recurrent',
+        conditionClasses: ['Disease'],
+        message: 'the conditions of a recurrent statement must include a disease',
+    },
+];
+
+type LinkedRecord = { '@class'?: string; name?: string; displayName?: string } | string | null | undefined;
+
+/**
+ * the class of an expanded linked record
+ *
+ * @throws {ValidationError} when the record has not been expanded
+ */
+const linkedClass = (value: LinkedRecord, field: string): string => {
+    if (!value || typeof value !== 'object' || typeof value['@class'] !== 'string') {
+        throw new ValidationError({
+            message: `The ${field} of the statement must be expanded (with @class) to check the statement rules`,
+            field,
+            model: 'Statement',
+            value,
+        });
+    }
+    return value['@class'];
+};
+
+const isOneOf = (schema: SchemaDefinition, modelName: string, classes: string[]) => classes.some(
+    (name) => name === modelName || (schema.has(modelName) && schema.inheritsFrom(modelName, name)),
+);
+
+/**
+ * Check a statement against the rules for its relevance
+ *
+ * @param schema the schema definition
+ * @param record the statement with its relevance, subject and conditions expanded
+ * @param rules the rules to check
+ *
+ * @returns a failure for each rule the statement violates
+ *
+ * @throws {ValidationError} when the relevance, subject or conditions have not been expanded
+ *
+ * @example
+ * > checkStatementRules(schema, {
+ *     relevance: { '@class': 'Vocabulary', name: 'sensitivity' },
+ *     subject: { '@class': 'Disease', displayName: 'cancer' },
+ *     conditions: [...],
+ * })
+ * [{ path: 'subject', code: 'CHECK_FAILED', constraint: 'therapeutic subject', ... }]
+ */
+const checkStatementRules = (
+    schema: SchemaDefinition,
+    record: Record<string, unknown>,
+    rules: StatementRule[] = STATEMENT_RULES,
+): RecordValidationFailure[] => {
+    const relevance = record.relevance as LinkedRecord;
+    linkedClass(relevance, 'relevance');
+    const { name, displayName } = relevance as { name?: string; displayName?: string };
+    const relevanceName = (name || displayName || '').toLowerCase();
+    const category = relevanceCategory(relevanceName);
+    const subject = record.subject as LinkedRecord;
+    const conditions = (record.conditions || []) as LinkedRecord[];
+    const failures: RecordValidationFailure[] = [];
+
+    const applies = (rule: StatementRule) => (rule.relevance
+        ? rule.relevance.test(relevanceName)
+        : rule.category === category);
+
+    for (const rule of rules.filter(applies)) {
+        const fail = (path: string, value: unknown) => failures.push({
+            path,
+            code: 'CHECK_FAILED',
+            model: 'Statement',
+            constraint: rule.name,
+            value,
+            message: `[${rule.name}] ${rule.message} (relevance: ${relevanceName})`,
+        });
+
+        if (rule.subjectClasses) {
+            if (!subject) {
+                if (!rule.optionalSubject) {
+                    fail('subject', null);
+                }
+            } else {
+                const subjectClass = linkedClass(subject, 'subject');
+
+                if (!isOneOf(schema, subjectClass, rule.subjectClasses)) {
+                    fail('subject', subjectClass);
+                }
+            }
+        }
+        if (rule.conditionClasses) {
+            const conditionClasses = conditions.map((condition) => linkedClass(condition, 'conditions'));
+
+            if (!conditionClasses.some((conditionClass) => isOneOf(schema, conditionClass, rule.conditionClasses as string[]))) {
+                fail('conditions', conditionClasses);
+            }
+        }
+    }
+    return failures;
+};
+
+/**
+ * Check a statement against the rules for its relevance
+ *
+ * @throws {AggregateValidationError} when the statement violates any of the rules
+ */
+const validateStatementRules = (
+    schema: SchemaDefinition,
+    record: Record<string, unknown>,
+    rules: StatementRule[] = STATEMENT_RULES,
+): void => {
+    const failures = checkStatementRules(schema, record, rules);
+
+    if (failures.length) {
+        throw new AggregateValidationError({
+            message: `${failures.length} statement rule(s) violated: ${failures.map((f) => `${f.path}: ${f.message}`).join('; ')}`,
+            code: 'MULTIPLE_ERRORS',
+            model: 'Statement',
+            errors: failures,
+        });
+    }
+};
+
+export {
+    checkStatementRules,
+    STATEMENT_RULES,
+    validateStatementRules,
+};
@@ -0,0 +1,264 @@
+/**
+ * The rules used in choosing the default displayNameTemplate of a statement
+ * @module templateRules
+ */
+import { ValidationError } from './error';
+import {
+    StatementCategory, StatementRecord, TemplateRule, TemplateRuleContext,
+} from './types';
+
+/**
+ * the patterns of the relevance names in each statement category, in order of precedence
+ */
+const RELEVANCE_CATEGORIES: { category: StatementCategory; pattern: RegExp }[] = [
+    { category: 'recurrent', pattern: /^recurrent$/ },
+    { category: 'eligibility', pattern: /^eligibility$/ },
+    { category: 'diagnostic', pattern: /diagnos/ },
+    { category: 'prognostic', pattern: /prognos/ },
+    { category: 'therapeutic', pattern: /sensitivity|resistance|response|toxicity/ },
+    { category: 'functional', pattern: /function|\sexpression/ },
+];
+
+/**
+ * Classify a statement by the name of its relevance. This is used by the statement rules and is given to custom
+ * template rules. The default template rules match the relevance names directly so that the default templates
+ * are unchanged
+ *
+ * @returns the first category with a matching pattern or null when the relevance is not in any category
+ *
+ * @example
+ * > relevanceCategory('likely gain of function')
+ * 'functional'
+ */
+const relevanceCategory = (relevance: string): StatementCategory | null => {
+    const name = relevance.toLowerCase();
+    const match = RELEVANCE_CATEGORIES.find(({ pattern }) => pattern.test(name));
+    return match
+        ? match.category
+        : null;
+};
+
+const isDiseaseVariant = ({ subjectType, hasVariant }: TemplateRuleContext) => subjectType === 'disease' && hasVariant;
+
+const isFeature = ({ subjectType }: TemplateRuleContext) => subjectType === 'feature' || subjectType.endsWith('variant');
+
+const isFunctional = (context: TemplateRuleContext) => isFeature(context)
+    && context.hasVariant
+    && (context.relevance.includes('function') || context.relevance.includes(' expression'));
+
+const isTherapeutic = ({ subjectType, hasVariant }: TemplateRuleContext) => subjectType === 'therapy' && hasVariant;
+
+const isPrognostic = ({ subjectType, record }: TemplateRuleContext) => !subjectType || record.subject.displayName.toLowerCase() === 'patient';
+
+const isEligibility = ({ subjectType, hasVariant, relevance }: TemplateRuleContext) => hasVariant
+    && relevance === 'eligibility'
+    && subjectType === 'clinicaltrial';
+
+/**
+ * the rules for choosing the default template, in order of precedence. The first rule which matches the
+ * statement is used. The last rule matches any statement
+ */
+const TEMPLATE_RULES: TemplateRule[] = [
+    {
+        name: 'recurrent',
+        matches: ({ hasDisease, hasVariant, relevance }) => hasDisease && hasVariant && relevance === 'recurrent',
+        template: 'recurrent',
+    },
+    {
+        name: 'diagnostic indicator',
+        matches: (context) => isDiseaseVariant(context) && context.relevance === 'diagnostic indicator',
+        template: 'diagnosticIndicator',
+    },
+    {
+        name: 'diagnostic',
+        matches: (context) => isDiseaseVariant(context) && context.relevance.includes('diagnos'),
+        template: 'diagnostic',
+    },
+    {
+        name: 'predisposing',
+        matches: (context) => isDiseaseVariant(context) && context.relevance.includes('predisposing'),
+        template: 'predisposing',
+    },
+    {
+        name: 'mutation hotspot',
+        matches: (context) => isDiseaseVariant(context) && context.relevance === 'mutation hotspot',
+        template: 'mutationHotspot',
+    },
+    {
+        name: 'tumourigenesis',
+        matches: (context) => isDiseaseVariant(context) && context.relevance === 'tumourigenesis',
+        template: 'tumourigenesis',
+    },
+    {
+        name: 'disease',
+        matches: isDiseaseVariant,
+        template: 'disease',
+    },
+    {
+        name: 'functional',
+        matches: (context) => isFunctional(context) && !context.hasDisease,
+        template: 'functional',
+    },
+    {
+        name: 'functional in disease',
+        matches: isFunctional,
+        template: 'functionalInDisease',
+    },
+    {
+        name: 'feature',
+        matches: (context) => isFeature(context) && !context.hasDisease,
+        template: 'feature',
+    },
+    {
+        name: 'feature in disease',
+        matches: isFeature,
+        template: 'featureInDisease',
+    },
+    {
+        name: 'therapeutic in disease',
+        matches: (context) => isTherapeutic(context) && context.hasDisease,
+        template: 'therapeuticInDisease',
+    },
+    {
+        name: 'therapeutic',
+        matches: isTherapeutic,
+        template: 'therapeutic',
+    },
+    {
+        name: 'prognosis in disease',
+        matches: (context) => isPrognostic(context) && context.relevance.endsWith('prognosis') && context.hasDisease,
+        template: 'prognosisInDisease',
+    },
+    {
+        name: 'prognosis',
+        matches: (context) => isPrognostic(context) && context.relevance.endsWith('prognosis'),
+        template: 'prognosis',
+    },
+    {
+        name: 'prognostic indicator in disease',
+        matches: (context) => isPrognostic(context) && context.relevance.endsWith('indicator') && context.hasDisease,
+        template: 'prognosticIndicatorInDisease',
+    },
+    {
+        name: 'prognostic indicator',
+        matches: (context) => isPrognostic(context) && context.relevance.endsWith('indicator'),
+        template: 'prognosticIndicator',
+    },
+    {
+        name: 'eligibility in disease',
+        matches: (context) => isEligibility(context) && context.hasDisease,
+        template: 'eligibilityInDisease',
+    },
+    {
+        name: 'eligibility',
+        matches: isEligibility,
+        template: 'eligibility',
+    },
+    {
+        name: 'single condition',
+        matches: ({ conditionTypes }) => conditionTypes.length === 1,
+        template: 'singleCondition',
+    },
+    {
+        name: 'default',
+        matches: () => true,
+        template: 'default',
+    },
+];
+
+/**
+ * the parts of a statement used by the template rules
+ */
+const templateRuleContext = (record: StatementRecord): TemplateRuleContext => {
+    const conditionTypes = record.conditions.map((c) => c['@class'].toLowerCase());
+    const relevance = record.relevance.name || record.relevance.displayName;
+    return {
+        record,
+        relevance,
+        subjectType: record.subject
+            ? record.subject['@class'].toLowerCase()
+            : '',
+        conditionTypes,
+        category: relevanceCategory(relevance),
+        hasVariant: conditionTypes.some((t) => t.endsWith('variant')),
+        hasDisease: conditionTypes.includes('disease'),
+    };
+};
+
+/**
+ * Find the rule used in choosing the default template of a statement
+ *
+ * @param record the statement record (with its conditions, subject and relevance expanded)
+ * @param rules the template rules in order of precedence
+ *
+ * @returns the first rule which matches the statement or null if none match
+ *
+ * @example
+ * > matchTemplateRule({
+ *     conditions: [{ '@class': 'PositionalVariant', ... }, { '@class': 'Therapy', ... }],
+ *     subject: { '@class': 'Therapy', ... },
+ *     relevance: { name: 'sensitivity', ... },
+ * }).name
+ * 'therapeutic'
+ */
+const matchTemplateRule = (record: StatementRecord, rules: TemplateRule[] = TEMPLATE_RULES): TemplateRule | null => {
+    const context = templateRuleContext(record);
+    return rules.find((rule) => rule.matches(context)) || null;
+};
+
+/**
+ * Add a rule for choosing the default template. By default the rule is given precedence over all the existing rules
+ *
+ * @param rule the rule to add
+ * @param opt.before the name of the rule to insert the new rule before
+ * @param opt.rules the list of rules to add the rule to
+ *
+ * @throws {ValidationError} when a rule with the same name already exists or the rule to insert before does not
+ */
+const registerTemplateRule = (
+    rule: TemplateRule,
+    { before, rules = TEMPLATE_RULES }: { before?: string; rules?: TemplateRule[] } = {},
+): void => {
+    if (rules.some((r) => r.name === rule.name)) {
+        throw new ValidationError({
+            message: `A template rule with the name (${rule.name}) already exists`,
+            value: rule.name,
+        });
+    }
+    let index = 0;
+
+    if (before !== undefined) {
+        index = rules.findIndex((r) => r.name === before);
+
+        if (index < 0) {
+            throw new ValidationError({
+                message: `Unable to add the template rule (${rule.name}). There is no rule named (${before})`,
+                value: before,
+            });
+        }
+    }
+    rules.splice(index, 0, rule);
+};
+
+/**
+ * Remove a rule for choosing the default template
+ *
+ * @returns the rule removed or null if there was no rule with the given name
+ */
+const removeTemplateRule = (name: string, rules: TemplateRule[] = TEMPLATE_RULES): TemplateRule | null => {
+    const index = rules.findIndex((r) => r.name === name);
+
+    if (index < 0) {
+        return null;
+    }
+    return rules.splice(index, 1)[0];
+};
+
+export {
+    matchTemplateRule,
+    registerTemplateRule,
+    relevanceCategory,
+    removeTemplateRule,
+    TEMPLATE_RULES,
+    templateRuleContext,
+};
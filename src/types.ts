@@ -13,6 +13,21 @@ export interface Expose {
     DELETE: boolean;
 }
 
+export interface RouteDefinition {
+    /** the HTTP method of the route */
+    method: 'get' | 'post' | 'patch' | 'delete';
+    /** the Expose flag which creates this route */
+    operation: keyof Expose;
+    /** the URL path of the route (ex. /statements/{rid}) */
+    path: string;
+    /** name of the class this route acts on */
+    model: string;
+    /** the permission bit (from PERMISSIONS) required to use this route */
+    permission: number;
+    /** the name used for the reverse direction of this edge class */
+    reverseName?: string;
+}
+
 export interface IndexType {
     name: string;
     type: 'NOTUNIQUE' | 'UNIQUE' | 'NOTUNIQUE_HASH_INDEX' | 'FULLTEXT' | 'FULLTEXT_HASH_INDEX';
@@ -86,6 +101,65 @@ export type ClassPermissions = Partial<Record<GroupName, number> > & { default?:
 
 export type UserGroupPermissions = Record<GroupName, Partial<Record<string, number>>>;
 
+export type PermissionName = 'CREATE' | 'READ' | 'UPDATE' | 'DELETE';
+
+/** the parts of a UserGroup record used in resolving permissions */
+export interface AccessUserGroup {
+    '@rid'?: GraphRecordId | string | null;
+    name?: string;
+    /** mapping of class name to permission bits (the embedded Permissions record) */
+    permissions?: Partial<Record<string, number>> | null;
+}
+
+/** the parts of a User record used in resolving permissions */
+export interface AccessUser {
+    '@rid'?: GraphRecordId | string | null;
+    /** the groups of the user, either as record IDs or (to resolve their permissions) as expanded records. Null (broken) links are ignored */
+    groups?: Array<GraphRecordId | string | AccessUserGroup | null> | null;
+}
+
+export interface PermissionDecision {
+    permission: PermissionName;
+    granted: boolean;
+    /** name of the user group which granted the permission */
+    group?: string;
+    /** description of the rule which granted or denied the permission */
+    reason: string;
+}
+
+export interface PermissionMatrixCell {
+    bits: number;
+    permissions: PermissionName[];
+    /** permissions granted to the group which are not exposed by any route of the class */
+    beyondRoutes: PermissionName[];
+}
+
+export interface PermissionMatrixRow {
+    model: string;
+    isAbstract: boolean;
+    /** the abstract classes this class inherits from */
+    abstractAncestors: string[];
+    /** the permissions required by the routes the class exposes */
+    routes: PermissionName[];
+    groups: Record<GroupName, PermissionMatrixCell>;
+}
+
+export interface RecordAccess {
+    /** false when the user cannot access the record itself */
+    accessible: boolean;
+    /** the reason the record cannot be accessed */
+    reason?: string;
+    /** paths to the linked records which the user cannot access and must be redacted (ex. evidence[1]) */
+    redact: string[];
+}
+
+export interface EffectivePermissions {
+    model: string;
+    /** the combined permission bits (see PERMISSIONS) */
+    permissions: number;
+    decisions: PermissionDecision[];
+}
+
 export interface GraphRecord {
     [key: string]: unknown;
     sourceId?: string;
@@ -129,7 +203,8 @@ export interface PropertyDefinition {
     fulltextIndexed: boolean;
     /** indicates if this property is a generated value and not expected to be input from a user */
     generated?: boolean;
-    generateDefault?: (rec?: any) => unknown;
+    /** the default value. Generators with generationDependencies are also given the record as input (before casting), where links may still be expanded */
+    generateDefault?: (rec?: any, input?: Record<string, unknown>) => unknown;
     /** indicates that a field should be generated after all other processing is complete b/c it requires other fields */
     generationDependencies?: boolean;
     /** indicates if this field is exact indexed for quick search */
@@ -153,6 +228,8 @@ export interface PropertyDefinition {
     nullable?: boolean;
     /** a regex pattern that values for this property can be restricted by */
     pattern?: string;
+    /** permissions of user groups on this property (READ to see it, CREATE/UPDATE to set it). Unrestricted if not given */
+    permissions?: ClassPermissions;
     readOnly?: boolean;
     /** the database type of this property */
     type: DbType;
@@ -183,6 +260,11 @@ export interface ClassDefinition {
     sourceModel?: VertexName;
     /** the model edges incoming vertices are restricted to */
     targetModel?: VertexName;
+    /**
+     * check of the whole (formatted) record for constraints involving more than one property. Throws a ValidationError
+     * on the invalid field. For updates the properties being changed are also given
+     */
+    validate?: (record: Record<string, unknown>, changes?: string[]) => void;
 }
 
 export interface PropertyDefinitionInput extends Partial<Omit<PropertyDefinition, 'generated' | 'name'>> {
@@ -195,6 +277,266 @@ export interface ClassDefinitionInput extends Partial<Omit<ClassDefinition, 'pro
     name: ClassDefinition['name'];
 }
 
+export interface FormatRecordOptions {
+    /** drop any record attributes that are not defined on the current class model */
+    dropExtra?: boolean;
+    /** add default values for any attributes not given (where defined) */
+    addDefaults?: boolean;
+    /** do not throw an error when an unexpected value is given */
+    ignoreExtra?: boolean;
+    /** do not throw an error when a required attribute is missing */
+    ignoreMissing?: boolean;
+}
+
+export type ValidationErrorCode = (
+    'VALIDATION_ERROR'
+    | 'MULTIPLE_ERRORS'
+    | 'UNKNOWN_MODEL'
+    | 'MISSING_REQUIRED'
+    | 'UNEXPECTED_ATTRIBUTE'
+    | 'INVALID_LINKED_CLASS'
+    | 'GENERATION_FAILED'
+    | 'READ_ONLY'
+    | 'NOT_ITERABLE'
+    | 'NOT_NULLABLE'
+    | 'CAST_FAILED'
+    | 'EMPTY_STRING'
+    | 'BELOW_MINIMUM'
+    | 'ABOVE_MAXIMUM'
+    | 'PATTERN_MISMATCH'
+    | 'INVALID_CHOICE'
+    | 'CHECK_FAILED'
+    | 'TOO_FEW_ITEMS'
+    | 'TOO_MANY_ITEMS'
+    | 'FORBIDDEN_PROPERTY'
+    | 'INCOMPATIBLE_POSITIONS'
+);
+
+export interface RecordValidationFailure {
+    /** path to the failing property from the top-level record (ex. break1Start.pos or reviews[2].status) */
+    path: string;
+    code: ValidationErrorCode;
+    /** name of the class/model the failing property belongs to */
+    model?: string;
+    /** name of the constraint which was violated (ex. mandatory, pattern, minimum) */
+    constraint?: string;
+    /** the value of the constraint which was violated (ex. the pattern or the minimum) */
+    constraintValue?: unknown;
+    /** the offending value */
+    value: unknown;
+    message: string;
+}
+
+export interface RecordUpdate {
+    /** the existing record with the patch applied and generated properties re-generated */
+    record: Partial<GraphRecord>;
+    /** names of the properties whose values differ from the existing record */
+    changes: string[];
+}
+
+export interface SchemaChange {
+    type: 'CLASS_ADDED' | 'CLASS_REMOVED' | 'CLASS_CHANGED' | 'PROPERTY_ADDED' | 'PROPERTY_REMOVED' | 'PROPERTY_CHANGED' | 'INDEX_ADDED' | 'INDEX_REMOVED' | 'INDEX_CHANGED' | 'PERMISSIONS_CHANGED';
+    /** name of the class which changed */
+    model: string;
+    property?: string;
+    index?: string;
+    /** the permissions group (for permissions changes) */
+    group?: string;
+    /** the class or property attribute which changed (ex. nullable) */
+    attribute?: string;
+    from?: unknown;
+    to?: unknown;
+    /** true when the change is not compatible with existing data or API users */
+    breaking: boolean;
+    description: string;
+}
+
+export interface SchemaDiff {
+    changes: SchemaChange[];
+    /** true when any of the changes are breaking */
+    breaking: boolean;
+}
+
+export type MigrationStepType = 'CREATE_CLASS' | 'ALTER_CLASS' | 'DROP_INDEX' | 'ADD_PROPERTY' | 'ALTER_PROPERTY' | 'CREATE_INDEX' | 'DROP_PROPERTY' | 'DROP_CLASS';
+
+export interface MigrationStep {
+    type: MigrationStepType;
+    model: string;
+    property?: string;
+    index?: string;
+    /** the OrientDB SQL statements to apply this step */
+    statements: string[];
+    description: string;
+    /** explains any changes to existing data which must be made for this step to succeed */
+    warning?: string;
+}
+
+export interface MigrationPlan {
+    steps: MigrationStep[];
+    warnings: string[];
+}
+
+/** the parts of an (embedded) Position record used in comparing positions */
+export interface PositionRecord {
+    '@class': string;
+    /** null/undefined when the position is unknown (ex. p.?) */
+    pos?: number | null;
+    offset?: number | null;
+    arm?: 'p' | 'q' | string;
+    majorBand?: number | null;
+    minorBand?: number | null;
+}
+
+/** a range of positions, ex. the breakStart..breakEnd of a variant. A missing end is the single position start */
+export interface PositionRange {
+    start: PositionRecord;
+    end?: PositionRecord | null;
+}
+
+export interface UniqueIndexViolation {
+    /** name of the violated index */
+    index: string;
+    /** the class the index is declared on */
+    model: string;
+    properties: string[];
+    /** the (normalized) values of the indexed properties which the records share */
+    values: Record<string, unknown>;
+    /** positions of the conflicting records in the collection checked */
+    records: number[];
+    message: string;
+}
+
+/** the kinds of statements distinguished by their relevance (see relevanceCategory) */
+export type StatementCategory = 'therapeutic' | 'diagnostic' | 'prognostic' | 'functional' | 'eligibility' | 'recurrent';
+
+/** a constraint on the classes of the subject/conditions of statements with a given relevance */
+export interface StatementRule {
+    /** unique name of the rule, reported as the constraint of its failures */
+    name: string;
+    /** the rule applies to statements whose relevance is in this category (see relevanceCategory) */
+    category: StatementCategory;
+    /** the rule applies instead to statements with a relevance name matching this pattern */
+    relevance?: RegExp;
+    /** the subject must be one of these classes (or their subclasses) */
+    subjectClasses?: string[];
+    /** statements without a subject are allowed (ex. prognostic statements) */
+    optionalSubject?: boolean;
+    /** at least one of the conditions must be one of these classes (or their subclasses) */
+    conditionClasses?: string[];
+    /** explains the rule when it is violated */
+    message: string;
+}
+
+/** a part of a statement sentence taken directly from its template */
+export interface SentenceTextToken {
+    type: 'text';
+    text: string;
+}
+
+/** a part of a statement sentence filled in for a template key (ex. the preview of a variant condition) */
+export interface SentenceSlotToken {
+    type: 'slot';
+    /** name of the template key (see TEMPLATE_KEYS) */
+    key: string;
+    text: string;
+    /** the record the text was created from (null for fixed text such as the preclinical warning) */
+    '@rid': string | null;
+    '@class': string | null;
+}
+
+export type SentenceToken = SentenceTextToken | SentenceSlotToken;
+
+/** the values available to the templates of a sentence catalogue */
+export interface SentenceTemplateArgs {
+    /** template key-value pairs (see TEMPLATE_KEYS) */
+    keys: Record<string, string>;
+    /** the name of the relevance of the statement */
+    relevance: string;
+    /** the localized co-occurrence prefix when the statement has more than one variant, otherwise an empty string */
+    multiVariant: string;
+}
+
+export type SentenceTemplate = (args: SentenceTemplateArgs) => string;
+
+/** the phrases used in building statement sentences for a given language */
+export interface SentenceCatalogue {
+    /** conjunction for the last item of a list (ex. 'and') */
+    and: string;
+    /** prefix for conditions with more than one variant (ex. 'Co-occurrence of ') */
+    coOccurrence: string;
+    preclinicalWarning: string;
+    templates: {
+        recurrent: SentenceTemplate;
+        diagnosticIndicator: SentenceTemplate;
+        diagnostic: SentenceTemplate;
+        predisposing: SentenceTemplate;
+        mutationHotspot: SentenceTemplate;
+        tumourigenesis: SentenceTemplate;
+        disease: SentenceTemplate;
+        functional: SentenceTemplate;
+        functionalInDisease: SentenceTemplate;
+        feature: SentenceTemplate;
+        featureInDisease: SentenceTemplate;
+        therapeutic: SentenceTemplate;
+        therapeuticInDisease: SentenceTemplate;
+        prognosis: SentenceTemplate;
+        prognosisInDisease: SentenceTemplate;
+        prognosticIndicator: SentenceTemplate;
+        prognosticIndicatorInDisease: SentenceTemplate;
+        eligibility: SentenceTemplate;
+        eligibilityInDisease: SentenceTemplate;
+        singleCondition: SentenceTemplate;
+        default: SentenceTemplate;
+    };
+}
+
+/** the parts of a statement used in choosing its default template */
+export interface TemplateRuleContext {
+    record: StatementRecord;
+    /** the name of the relevance */
+    relevance: string;
+    /** the lowercased class of the subject or an empty string when the statement does not have a subject */
+    subjectType: string;
+    /** the lowercased classes of the conditions */
+    conditionTypes: string[];
+    /** the kind of statement given by its relevance (see relevanceCategory) */
+    category: StatementCategory | null;
+    hasVariant: boolean;
+    hasDisease: boolean;
+}
+
+/** a rule for choosing the default template of a statement (see TEMPLATE_RULES) */
+export interface TemplateRule {
+    name: string;
+    matches: (context: TemplateRuleContext) => boolean;
+    /** the name of the template in the sentence catalogue or a template function (not localized) */
+    template: keyof SentenceCatalogue['templates'] | SentenceTemplate;
+}
+
+/** literal text in a displayNameTemplate */
+export interface TemplateTextNode {
+    type: 'text';
+    text: string;
+    /** offset of the text in the template */
+    start: number;
+}
+
+/** a placeholder (ex. {conditions:variant}) in a displayNameTemplate */
+export interface TemplateKeyNode {
+    type: 'key';
+    /** the placeholder as written, including the braces */
+    text: string;
+    /** name of the template key (see TEMPLATE_KEYS) or null when the placeholder is not a known key */
+    key: string | null;
+    /** offset of the placeholder in the template */
+    start: number;
+}
+
+export type TemplateNode = TemplateTextNode | TemplateKeyNode;
+
 export type ClassMapping<T> = Partial<Record<ClassName, T>>;
 
+/** a JSON-like (OpenAPI or JSON Schema) schema object */
+export type SchemaObject = Record<string, unknown>;
+
 export type PartialSchemaDefn = ClassMapping<Omit<ClassDefinitionInput, 'name'>>;
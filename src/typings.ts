@@ -0,0 +1,134 @@
+/**
+ * Generate TypeScript interfaces for the records of each class in the schema
+ * @module typings
+ */
+import { PropertyDefinition } from './types';
+import type { SchemaDefinition } from './schema';
+
+const HEADER = `/* eslint-disable @typescript-eslint/no-empty-interface */
+/**
+ * Interfaces for the records of each class in the schema
+ *
+ * This file is generated by scripts/generateTypes.js (npm run generate:types). Do not edit it directly
+ * @module records
+ */
+import { GraphRecordId } from './constants';
+`;
+
+const quoteName = (name: string) => (/^[A-Za-z_$][\w$]*$/.exec(name)
+    ? name
+    : `'${name}'`);
+
+const literal = (value: unknown) => (typeof value === 'string'
+    ? `'${value.replace(/'/g, '\\\'')}'`
+    : `${value}`);
+
+/**
+ * the type of an embedded record. When the linked class has subclasses (ex. Position) this is the union of the
+ * concrete subclasses
+ */
+const embeddedType = (schema: SchemaDefinition, linkedClass: string): string => {
+    const concrete = schema.descendants(linkedClass, { excludeAbstract: true, includeSelf: true });
+
+    if (concrete.length === 0) {
+        return linkedClass;
+    }
+    return concrete.join(' | ');
+};
+
+/**
+ * the type of a single (non-iterable) value of a property
+ */
+const valueType = (schema: SchemaDefinition, prop: PropertyDefinition): string => {
+    if (prop.choices) {
+        return prop.choices.map(literal).join(' | ');
+    }
+    if (prop.type === 'integer' || prop.type === 'long') {
+        return 'number';
+    }
+    if (prop.type === 'boolean') {
+        return 'boolean';
+    }
+    if (prop.type.includes('link')) {
+        return prop.linkedClass
+            ? `GraphRecordId | ${prop.linkedClass}`
+            : 'GraphRecordId';
+    }
+    if (prop.type.startsWith('embedded')) {
+        if (prop.linkedClass) {
+            return embeddedType(schema, prop.linkedClass);
+        }
+        if (prop.linkedType === 'string') {
+            return 'string';
+        }
+        return prop.iterable
+            ? 'unknown'
+            : 'Record<string, unknown>';
+    }
+    return 'string';
+};
+
+/**
+ * the type of a property including iterable and nullable modifiers
+ */
+const propertyType = (schema: SchemaDefinition, prop: PropertyDefinition): string => {
+    let result = valueType(schema, prop);
+
+    if (prop.iterable) {
+        result = result.includes(' ')
+            ? `(${result})[]`
+            : `${result}[]`;
+    }
+    if (prop.nullable) {
+        result = `${result} | null`;
+    }
+    return result;
+};
+
+/**
+ * Create the interface declaration for a single class
+ */
+const generateInterface = (schema: SchemaDefinition, modelName: string): string => {
+    const model = schema.get(modelName);
+    const lines: string[] = [];
+
+    if (model.description) {
+        lines.push(`/** ${model.description} */`);
+    }
+    const extension = model.inherits.length
+        ? ` extends ${model.inherits.join(', ')}`
+        : '';
+    lines.push(`export interface ${model.name}${extension} {`);
+
+    // embedded subclasses narrow the @class type so that they can be used as a discriminated union
+    if (model.embedded && model.inherits.length && schema.hasProperty(model.name, '@class')) {
+        lines.push(`    '@class': '${model.name}';`);
+    }
+
+    for (const prop of Object.values(model.properties)) {
+        if (prop.description) {
+            lines.push(`    /** ${prop.description.replace(/\*\//g, '* /')} */`);
+        }
+        const optional = prop.mandatory
+            ? ''
+            : '?';
+        lines.push(`    ${quoteName(prop.name)}${optional}: ${propertyType(schema, prop)};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+};
+
+/**
+ * Create the content of a TypeScript module declaring an interface for every class in the schema
+ */
+const generateRecordInterfaces = (schema: SchemaDefinition): string => {
+    const names = schema.getModels().map((model) => model.name).sort();
+    const interfaces = names.map((name) => generateInterface(schema, name));
+    return `${HEADER}\n${interfaces.join('\n\n')}\n`;
+};
+
+export {
+    generateInterface,
+    generateRecordInterfaces,
+    propertyType,
+};
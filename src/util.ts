@@ -78,6 +78,21 @@ const castToRID = (
     throw new ValidationError({ message: `not a valid RID (${value})`, value });
 };
 
+/**
+ * the record ID (as a string with the leading #) of a linked record which may or may not be expanded
+ */
+const recordId = (value: unknown): string | null => {
+    let rid = value;
+
+    if (value && typeof value === 'object' && !(value instanceof constants.GraphRecordId)) {
+        rid = (value as { '@rid'?: unknown })['@rid'];
+    }
+    if (rid === undefined || rid === null) {
+        return null;
+    }
+    return `#${`${rid}`.replace(/^#/, '')}`;
+};
+
 /**
  * remove multi-character spaces and trim leading/trailing whitespace
  * @param {string} string the input string
@@ -190,9 +205,9 @@ const displayFeature = ({
     return sourceId || name;
 };
 
-const naturalListJoin = (words: string[]): string => {
+const naturalListJoin = (words: string[], conjunction = 'and'): string => {
     if (words.length > 1) {
-        return `${words.slice(0, words.length - 1).join(', ')} and ${words[words.length - 1]}`;
+        return `${words.slice(0, words.length - 1).join(', ')} ${conjunction} ${words[words.length - 1]}`;
     }
     return words[0];
 };
@@ -212,6 +227,7 @@ export {
     displayOntology,
     looksLikeRID,
     naturalListJoin,
+    recordId,
     timeStampNow,
     trimString,
     uppercase,
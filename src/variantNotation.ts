@@ -0,0 +1,244 @@
+/**
+ * Convert between positional variant records and their HGVS-like notation
+ * @module variantNotation
+ */
+import { constants, position, stringifyVariant } from '@bcgsc-pori/graphkb-parser';
+import { ValidationError } from './error';
+import { generateBreakRepr } from './definitions/util';
+import type { SchemaDefinition } from './schema';
+
+type OntologyTerm = { '@rid'?: unknown; displayName?: string; sourceId?: string; name?: string };
+
+/** the parts of a positional variant record used in creating its notation. Links may be expanded or record IDs */
+interface VariantNotationRecord {
+    reference1?: unknown;
+    reference2?: unknown;
+    type?: unknown;
+    hgvsType?: string | null;
+    break1Start?: unknown;
+    break1End?: unknown;
+    break1Repr?: string | null;
+    break2Start?: unknown;
+    break2End?: unknown;
+    break2Repr?: string | null;
+    refSeq?: string | null;
+    untemplatedSeq?: string | null;
+    untemplatedSeqSize?: number;
+    truncation?: number | null;
+}
+
+/**
+ * the name to use for a linked record in the notation, or null if the record has not been expanded
+ */
+const termName = (term: unknown): string | null => {
+    if (!term || typeof term !== 'object') {
+        return null;
+    }
+    const { displayName, sourceId, name } = term as OntologyTerm;
+    return displayName || sourceId || name || null;
+};
+
+const sameRecord = (term1: unknown, term2: unknown): boolean => {
+    const rid = (term: unknown) => (term && typeof term === 'object'
+        ? `${(term as OntologyTerm)['@rid']}`
+        : `${term}`);
+    return rid(term1) === rid(term2);
+};
+
+/**
+ * Create the HGVS-like notation for a positional variant record. The features (reference1/reference2) are
+ * only included when they have been expanded, ex. KRAS:p.G12D vs. p.G12D
+ *
+ * @param record the (formatted) positional variant record. The notation type is taken from hgvsType or else the name of the expanded type
+ *
+ * @throws {ValidationError} when the variant type cannot be determined or the variant cannot be represented in the notation
+ *
+ * @example
+ * > generateVariantNotation({
+ *     reference1: { displayName: 'BCR' },
+ *     reference2: { displayName: 'ABL1' },
+ *     type: { name: 'fusion' },
+ *     break1Repr: 'e.13',
+ *     break2Repr: 'e.2',
+ * })
+ * '(BCR,ABL1):fusion(e.13,e.2)'
+ */
+const generateVariantNotation = (record: VariantNotationRecord): string => {
+    const type = record.hgvsType || termName(record.type);
+
+    if (!type) {
+        throw new ValidationError({
+            message: 'The variant type must be expanded (or hgvsType given) to create the variant notation',
+            field: 'type',
+        });
+    }
+    const break1Start = record.break1Start as position.AnyPosition | undefined;
+    const break1Repr = record.break1Repr || generateBreakRepr(break1Start, record.break1End as position.AnyPosition | undefined);
+    const break2Repr = record.break2Repr || generateBreakRepr(
+        record.break2Start as position.AnyPosition | undefined,
+        record.break2End as position.AnyPosition | undefined,
+    );
+
+    if (!break1Repr) {
+        throw new ValidationError({
+            message: 'The first break (break1Start or break1Repr) is required to create the variant notation',
+            field: 'break1Start',
+        });
+    }
+    const reference1 = termName(record.reference1);
+    const reference2 = record.reference2
+        ? termName(record.reference2)
+        : null;
+    const multiFeature = Boolean(record.reference2) && !sameRecord(record.reference1, record.reference2);
+
+    try {
+        return stringifyVariant({
+            reference1: reference1 || '',
+            reference2: reference2 || '',
+            noFeatures: !reference1 || (multiFeature && !reference2),
+            multiFeature,
+            type,
+            notationType: record.hgvsType || undefined,
+            prefix: break1Repr.slice(0, 1) as constants.Prefix,
+            break1Start: break1Start as position.AnyPosition,
+            break1Repr,
+            break2Repr,
+            refSeq: record.refSeq ?? undefined,
+            untemplatedSeq: record.untemplatedSeq ?? undefined,
+            untemplatedSeqSize: record.untemplatedSeqSize ?? undefined,
+            truncation: record.truncation ?? undefined,
+        });
+    } catch (err) {
+        throw new ValidationError({
+            message: `Unable to create the variant notation: ${(err as Error).message}`,
+        });
+    }
+};
+
+/**
+ * default displayName for positional variants. Links are cast to record IDs before the defaults are generated
+ * so the features and type are taken from the input record when they were given there as expanded records.
+ * Falls back to the name (or null) when the features have not been expanded or the notation cannot be created
+ *
+ * @param record the formatted positional variant record
+ * @param input the record as given, before formatting
+ */
+const generateVariantDisplayName = (
+    record: VariantNotationRecord & { name?: string | null },
+    input: Record<string, unknown> = {},
+): string | null => {
+    const expanded = (name: 'reference1' | 'reference2' | 'type') => (termName(input[name])
+        ? input[name]
+        : record[name]);
+    const variant = {
+        ...record,
+        reference1: expanded('reference1'),
+        reference2: expanded('reference2'),
+        type: expanded('type'),
+    };
+
+    if (!termName(variant.reference1) || (variant.reference2 && !termName(variant.reference2))) {
+        return record.name || null;
+    }
+
+    try {
+        return generateVariantNotation(variant);
+    } catch (err) {
+        return record.name || null;
+    }
+};
+
+/**
+ * Parse a single position (without prefix) and validate it against the matching Position class
+ */
+const parsePosition = (schema: SchemaDefinition, prefix: string, value: string, repr: string): Record<string, unknown> => {
+    let parsed: position.AnyPosition;
+
+    try {
+        parsed = position.parsePosition(prefix as constants.Prefix, value);
+    } catch (err) {
+        throw new ValidationError({
+            message: `Unable to parse the break representation (${repr}): ${(err as Error).message}`,
+            code: 'PATTERN_MISMATCH',
+            value: repr,
+        });
+    }
+    return schema.formatRecord(parsed['@class'], { ...parsed });
+};
+
+/**
+ * Parse a break representation (ex. break1Repr) back into the validated Position record(s) it was generated from
+ *
+ * @param schema the schema definition
+ * @param repr the break representation string
+ *
+ * @throws {ValidationError} when the value is not a string, cannot be parsed or the positions are not valid
+ *
+ * @example
+ * > parseBreakRepr(schema, 'e.(4_5)')
+ * { start: { '@class': 'ExonicPosition', pos: 4 }, end: { '@class': 'ExonicPosition', pos: 5 } }
+ */
+const parseBreakRepr = (
+    schema: SchemaDefinition,
+    repr: string,
+): { start: Record<string, unknown>; end?: Record<string, unknown> } => {
+    if (typeof repr !== 'string') {
+        throw new ValidationError({
+            message: `Unable to parse the break representation (${repr}): expected a string`,
+            code: 'CAST_FAILED',
+            value: repr,
+        });
+    }
+    const match = /^([a-z])\.(.+)$/.exec(repr.trim());
+
+    if (!match || constants.PREFIX_CLASS[match[1]] === undefined) {
+        throw new ValidationError({
+            message: `Unable to parse the break representation (${repr}): expected a known prefix followed by the position (ex. p.G12)`,
+            code: 'PATTERN_MISMATCH',
+            value: repr,
+        });
+    }
+    const [, prefix, content] = match;
+    const range = /^\(([^_]+)_([^_]+)\)$/.exec(content);
+
+    if (!range) {
+        return { start: parsePosition(schema, prefix, content, repr) };
+    }
+    return {
+        start: parsePosition(schema, prefix, range[1], repr),
+        end: parsePosition(schema, prefix, range[2], repr),
+    };
+};
+
+/**
+ * Create the break position properties of a positional variant from its break representations
+ *
+ * @example
+ * > positionsFromBreakReprs(schema, { break1Repr: 'p.G12' })
+ * { break1Start: { '@class': 'ProteinPosition', pos: 12, refAA: 'G' } }
+ */
+const positionsFromBreakReprs = (
+    schema: SchemaDefinition,
+    { break1Repr, break2Repr }: { break1Repr: string; break2Repr?: string | null },
+): Record<string, Record<string, unknown>> => {
+    const result: Record<string, Record<string, unknown>> = {};
+
+    for (const [name, repr] of [['break1', break1Repr], ['break2', break2Repr]]) {
+        if (repr) {
+            const { start, end } = parseBreakRepr(schema, repr);
+            result[`${name}Start`] = start;
+
+            if (end) {
+                result[`${name}End`] = end;
+            }
+        }
+    }
+    return result;
+};
+
+export {
+    generateVariantDisplayName,
+    generateVariantNotation,
+    parseBreakRepr,
+    positionsFromBreakReprs,
+};
@@ -0,0 +1,127 @@
+import { schema } from '../src';
+import {
+    createClassStatement, createIndexStatement, createPropertyStatements, generateDdlStatements,
+} from '../src/ddl';
+import { createPropertyDefinition } from '../src/property';
+
+describe('createClassStatement', () => {
+    test('abstract class', () => {
+        expect(createClassStatement(schema.get('Ontology'))).toBe('CREATE CLASS Ontology IF NOT EXISTS EXTENDS V, Biomarker ABSTRACT');
+    });
+
+    test('multiple parents', () => {
+        expect(createClassStatement(schema.get('Publication'))).toBe('CREATE CLASS Publication IF NOT EXISTS EXTENDS Evidence, Ontology');
+    });
+
+    test('edge', () => {
+        expect(createClassStatement(schema.get('AliasOf'))).toBe('CREATE CLASS AliasOf IF NOT EXISTS EXTENDS E');
+    });
+});
+
+describe('createPropertyStatements', () => {
+    test('mandatory link', () => {
+        expect(createPropertyStatements('Statement', schema.getProperty('Statement', 'relevance'))).toEqual([
+            'CREATE PROPERTY Statement.relevance IF NOT EXISTS LINK Vocabulary',
+            'ALTER PROPERTY Statement.relevance MANDATORY TRUE',
+            'ALTER PROPERTY Statement.relevance NOTNULL TRUE',
+        ]);
+    });
+
+    test('embedded set of strings', () => {
+        const prop = createPropertyDefinition({ name: 'tags', type: 'embeddedset', linkedType: 'string' });
+        expect(createPropertyStatements('Thing', prop)).toEqual([
+            'CREATE PROPERTY Thing.tags IF NOT EXISTS EMBEDDEDSET STRING',
+        ]);
+    });
+
+    test('list size limits', () => {
+        const prop = createPropertyDefinition({
+            name: 'items', type: 'linkset', linkedClass: 'Thing', minItems: 1, maxItems: 2,
+        });
+        expect(createPropertyStatements('Thing', prop)).toEqual([
+            'CREATE PROPERTY Thing.items IF NOT EXISTS LINKSET Thing',
+            'ALTER PROPERTY Thing.items MIN 1',
+            'ALTER PROPERTY Thing.items MAX 2',
+        ]);
+    });
+
+    test('integer range', () => {
+        const prop = createPropertyDefinition({
+            name: 'count', type: 'integer', minimum: 0, maximum: 10, nullable: false,
+        });
+        expect(createPropertyStatements('Thing', prop)).toEqual([
+            'CREATE PROPERTY Thing.count IF NOT EXISTS INTEGER',
+            'ALTER PROPERTY Thing.count NOTNULL TRUE',
+            'ALTER PROPERTY Thing.count MIN 0',
+            'ALTER PROPERTY Thing.count MAX 10',
+        ]);
+    });
+
+    test('non-empty string with pattern', () => {
+        const prop = createPropertyDefinition({ name: 'code', nonEmpty: true, pattern: '^\\d+"$' });
+        expect(createPropertyStatements('Thing', prop)).toEqual([
+            'CREATE PROPERTY Thing.code IF NOT EXISTS STRING',
+            'ALTER PROPERTY Thing.code MIN 1',
+            'ALTER PROPERTY Thing.code REGEXP "^\\\\d+\\"$"',
+        ]);
+    });
+});
+
+describe('createIndexStatement', () => {
+    test('unique with metadata', () => {
+        expect(createIndexStatement({
+            name: 'ActiveVUUID', type: 'UNIQUE', metadata: { ignoreNullValues: false }, properties: ['uuid', 'deletedAt'], class: 'V',
+        })).toBe('CREATE INDEX ActiveVUUID IF NOT EXISTS ON V (uuid, deletedAt) UNIQUE METADATA {"ignoreNullValues": false}');
+    });
+
+    test('fulltext', () => {
+        expect(createIndexStatement({
+            name: 'Ontology.name_ft', type: 'FULLTEXT', properties: ['name'], class: 'Ontology',
+        })).toBe('CREATE INDEX Ontology.name_ft IF NOT EXISTS ON Ontology (name) FULLTEXT ENGINE LUCENE');
+    });
+});
+
+describe('generateDdlStatements', () => {
+    const statements = generateDdlStatements(schema);
+    const position = (statement: string) => statements.indexOf(statement);
+
+    test('does not create the built-in classes', () => {
+        expect(statements.find((s) => s.startsWith('CREATE CLASS V ') || s.startsWith('CREATE CLASS E '))).toBeUndefined();
+        expect(statements).toContain('CREATE PROPERTY V.uuid IF NOT EXISTS STRING');
+    });
+
+    test('does not create properties for record metadata', () => {
+        expect(statements.find((s) => s.includes('@'))).toBeUndefined();
+    });
+
+    test('creates parent classes before children', () => {
+        expect(position('CREATE CLASS Ontology IF NOT EXISTS EXTENDS V, Biomarker ABSTRACT'))
+            .toBeLessThan(position('CREATE CLASS Publication IF NOT EXISTS EXTENDS Evidence, Ontology'));
+    });
+
+    test('creates all classes before properties and properties before indices', () => {
+        const lastClass = Math.max(...statements.map((s, i) => (s.startsWith('CREATE CLASS')
+            ? i
+            : -1)));
+        const firstProperty = statements.findIndex((s) => s.startsWith('CREATE PROPERTY'));
+        const lastProperty = Math.max(...statements.map((s, i) => (s.includes(' PROPERTY ')
+            ? i
+            : -1)));
+        const firstIndex = statements.findIndex((s) => s.startsWith('CREATE INDEX'));
+        expect(lastClass).toBeLessThan(firstProperty);
+        expect(lastProperty).toBeLessThan(firstIndex);
+    });
+
+    test('creates every class and index', () => {
+        const models = schema.getModels();
+        const indices = models.reduce((count, model) => count + model.indices.length, 0);
+        expect(statements.filter((s) => s.startsWith('CREATE CLASS'))).toHaveLength(models.length - 2);
+        expect(statements.filter((s) => s.startsWith('CREATE INDEX'))).toHaveLength(indices);
+    });
+
+    test('toDdl script', () => {
+        const script = schema.toDdl();
+        expect(script.split('\n')).toHaveLength(statements.length + 1);
+        expect(script).toContain('CREATE CLASS Statement IF NOT EXISTS EXTENDS V;\n');
+    });
+});
@@ -0,0 +1,121 @@
+import { schema } from '../src';
+import { createClassDefinition } from '../src/class';
+import { compareSchemas, formatSchemaDiff } from '../src/diff';
+import { SchemaDefinition } from '../src/schema';
+import { ClassDefinitionInput } from '../src/types';
+
+const createSchema = (...models: ClassDefinitionInput[]) => {
+    const result = {};
+    models.forEach((model) => {
+        result[model.name] = createClassDefinition(model);
+    });
+    return new SchemaDefinition(result);
+};
+
+const parent = { name: 'parent' };
+const child = {
+    name: 'child',
+    inherits: ['parent'],
+    properties: [
+        { name: 'name', mandatory: true, nullable: false },
+        { name: 'kind', choices: ['a', 'b'] },
+        { name: 'link', type: 'link' as const, linkedClass: 'child' },
+    ],
+    indices: [{
+        name: 'child.name', type: 'NOTUNIQUE' as const, properties: ['name'], class: 'child',
+    }],
+};
+const original = createSchema(parent, child);
+
+describe('compareSchemas', () => {
+    test('no changes', () => {
+        expect(compareSchemas(schema, schema)).toEqual({ changes: [], breaking: false });
+    });
+
+    test('added and removed classes', () => {
+        const { changes, breaking } = compareSchemas(original, createSchema(child, { name: 'other' }));
+        expect(changes.map((c) => [c.type, c.model, c.breaking])).toEqual([
+            ['CLASS_ADDED', 'other', false],
+            ['CLASS_REMOVED', 'parent', true],
+        ]);
+        expect(breaking).toBe(true);
+    });
+
+    test.each([
+        [{ name: 'optional' }, false],
+        [{ name: 'defaulted', mandatory: true, default: 1 }, false],
+        [{ name: 'required', mandatory: true }, true],
+    ])('add property %o', (prop, breaking) => {
+        const { changes } = compareSchemas(original, createSchema(parent, { ...child, properties: [...child.properties, prop] }));
+        expect(changes).toEqual([expect.objectContaining({ type: 'PROPERTY_ADDED', property: prop.name, breaking })]);
+    });
+
+    test('removed property is breaking', () => {
+        const { changes } = compareSchemas(original, createSchema(parent, { ...child, properties: child.properties.slice(1) }));
+        expect(changes).toEqual([expect.objectContaining({ type: 'PROPERTY_REMOVED', property: 'name', breaking: true })]);
+    });
+
+    test.each([
+        ['type', {
+            name: 'name', type: 'integer' as const, mandatory: true, nullable: false,
+        }, true],
+        ['mandatory', { name: 'name', nullable: false }, false],
+        ['nullable', { name: 'name', mandatory: true, nullable: true }, false],
+        ['choices', { name: 'kind', choices: ['a', 'b', 'c'] }, false],
+        ['choices', { name: 'kind', choices: ['a'] }, true],
+        ['choices', { name: 'kind' }, false],
+        ['linkedClass', { name: 'link', type: 'link' as const, linkedClass: 'parent' }, false],
+        ['linkedClass', { name: 'link', type: 'link' as const, linkedClass: 'other' }, true],
+    ])('changed %s to %o', (attribute, prop, breaking) => {
+        const properties = child.properties.map((p) => (p.name === prop.name
+            ? prop
+            : p));
+        const { changes } = compareSchemas(original, createSchema(parent, { ...child, properties }));
+        expect(changes).toEqual([expect.objectContaining({
+            type: 'PROPERTY_CHANGED', property: prop.name, attribute, breaking,
+        })]);
+    });
+
+    test.each([
+        ['NOTUNIQUE', false],
+        ['UNIQUE', true],
+    ])('adding %s index', (type, breaking) => {
+        const index = {
+            name: 'child.kind', type: type as 'UNIQUE', properties: ['kind'], class: 'child',
+        };
+        const { changes } = compareSchemas(original, createSchema(parent, { ...child, indices: [...child.indices, index] }));
+        expect(changes).toEqual([expect.objectContaining({ type: 'INDEX_ADDED', index: 'child.kind', breaking })]);
+    });
+
+    test('removed index is compatible', () => {
+        const { changes } = compareSchemas(original, createSchema(parent, { ...child, indices: [] }));
+        expect(changes).toEqual([expect.objectContaining({ type: 'INDEX_REMOVED', breaking: false })]);
+    });
+
+    test.each([
+        [{ admin: 0b1111 }, false],
+        [{ readonly: 0 }, true],
+    ])('permissions changed to %o', (permissions, breaking) => {
+        const { changes } = compareSchemas(original, createSchema(parent, { ...child, permissions }));
+        expect(changes).toEqual([expect.objectContaining({ type: 'PERMISSIONS_CHANGED', breaking })]);
+    });
+});
+
+describe('formatSchemaDiff', () => {
+    test('groups by compatibility', () => {
+        const result = formatSchemaDiff(compareSchemas(original, createSchema(child, { name: 'other' })));
+        expect(result).toEqual([
+            '### Breaking Changes',
+            '',
+            '- parent: removed class',
+            '',
+            '### Compatible Changes',
+            '',
+            '- other: added class',
+        ].join('\n'));
+    });
+
+    test('no changes', () => {
+        expect(formatSchemaDiff(compareSchemas(schema, schema))).toBe('No schema changes');
+    });
+});
@@ -0,0 +1,168 @@
+import { schema } from '../src';
+import { GraphRecordId } from '../src/constants';
+import { checkUniqueIndices, identityHash, identityKey } from '../src/identity';
+
+describe('identityKey', () => {
+    test('category variant', () => {
+        expect(identityKey(schema, 'CategoryVariant', { reference1: { '@rid': '#33:1' }, type: '34:1' })).toEqual(
+            'CategoryVariant{"deletedAt":null,"germline":null,"reference1":"#33:1","reference2":null,"type":"#34:1","zygosity":null}',
+        );
+    });
+
+    test('normalizes record IDs', () => {
+        const key = identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1' });
+        expect(identityKey(schema, 'CategoryVariant', { reference1: { '@rid': '33:1', displayName: 'KRAS' }, type: new GraphRecordId('#34:1') })).toEqual(key);
+    });
+
+    test('missing and null values are the same', () => {
+        const key = identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1' });
+        expect(identityKey(schema, 'CategoryVariant', {
+            reference1: '#33:1', type: '#34:1', reference2: null, zygosity: undefined,
+        })).toEqual(key);
+    });
+
+    test('ignores properties outside the active index', () => {
+        const key = identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1' });
+        expect(identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1', displayName: 'KRAS mutation' })).toEqual(key);
+    });
+
+    test('distinguishes different values', () => {
+        const key = identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1' });
+        expect(identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1', germline: false })).not.toEqual(key);
+    });
+
+    test('sorts sets', () => {
+        const statement = {
+            subject: '#1:1', relevance: '#2:1', conditions: ['#1:1', '#1:2'], evidence: ['#3:1', { '@rid': '#3:2' }],
+        };
+        expect(identityKey(schema, 'Statement', {
+            ...statement, conditions: ['#1:2', '#1:1'], evidence: ['#3:2', '#3:1'],
+        })).toEqual(identityKey(schema, 'Statement', statement));
+    });
+
+    test('embedded positions are compared by value', () => {
+        const variant = {
+            reference1: '#33:1', type: '#34:1', break1Repr: 'p.G12', break1Start: { '@class': 'ProteinPosition', pos: 12, refAA: 'G' },
+        };
+        expect(identityKey(schema, 'PositionalVariant', variant)).toEqual(identityKey(schema, 'PositionalVariant', { ...variant, untemplatedSeq: null }));
+        expect(identityKey(schema, 'PositionalVariant', variant)).not.toEqual(identityKey(schema, 'PositionalVariant', { ...variant, break1Repr: 'p.G13' }));
+    });
+
+    test('error for class without an active index', () => {
+        expect(() => identityKey(schema, 'User', { name: 'alice' })).toThrow('does not have an active index');
+    });
+
+    test('schema method', () => {
+        expect(schema.identityKey('CategoryVariant', { reference1: '#33:1', type: '#34:1' })).toEqual(
+            identityKey(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1' }),
+        );
+    });
+});
+
+describe('identityHash', () => {
+    test('same hash for equivalent records', () => {
+        expect(identityHash(schema, 'CategoryVariant', { reference1: '#33:1', type: { '@rid': '#34:1' } })).toEqual(
+            identityHash(schema, 'CategoryVariant', { reference1: '33:1', type: '#34:1' }),
+        );
+    });
+
+    test('different hash for different records', () => {
+        expect(identityHash(schema, 'CategoryVariant', { reference1: '#33:1', type: '#34:1' })).not.toEqual(
+            identityHash(schema, 'CategoryVariant', { reference1: '#33:2', type: '#34:1' }),
+        );
+    });
+
+    test('fixed length hexadecimal', () => {
+        expect(schema.identityHash('CategoryVariant', { reference1: '#33:1', type: '#34:1' })).toMatch(/^[0-9a-f]{14}$/);
+    });
+});
+
+describe('checkUniqueIndices', () => {
+    let lastUuid = 0;
+
+    // records are expected to be formatted so each has its own generated uuid
+    const record = (content: Record<string, unknown>) => {
+        lastUuid += 1;
+        return { uuid: `uuid-${lastUuid}`, ...content };
+    };
+
+    test('no violations', () => {
+        expect(checkUniqueIndices(schema, [
+            record({ '@class': 'User', name: 'alice', email: 'alice@example.com' }),
+            record({ '@class': 'User', name: 'bob', email: 'bob@example.com' }),
+        ])).toEqual([]);
+    });
+
+    test('duplicate active user email', () => {
+        const violations = checkUniqueIndices(schema, [
+            record({ '@class': 'User', name: 'alice', email: 'alice@example.com' }),
+            record({ '@class': 'User', name: 'bob' }),
+            record({ '@class': 'User', name: 'carol', email: 'alice@example.com' }),
+        ]);
+        expect(violations).toEqual([{
+            index: 'ActiveUserEmail',
+            model: 'User',
+            properties: ['email', 'deletedAt'],
+            values: { email: 'alice@example.com', deletedAt: null },
+            records: [0, 2],
+            message: 'records [0, 2] have the same values for the unique index ActiveUserEmail (email="alice@example.com", deletedAt=null)',
+        }]);
+    });
+
+    test('ignores all null values when the index ignores null values', () => {
+        expect(checkUniqueIndices(schema, [
+            record({ '@class': 'User', name: 'alice' }),
+            record({ '@class': 'User', name: 'bob' }),
+        ])).toEqual([]);
+    });
+
+    test('null values conflict when the index does not ignore them', () => {
+        const violations = checkUniqueIndices(schema, [
+            record({ '@class': 'Abstract', meeting: '2020 ASCO', sourceId: '1' }),
+            record({
+                '@class': 'Abstract', meeting: '2020 ASCO', abstractNumber: null, sourceId: '2',
+            }),
+        ]);
+        expect(violations.map((v) => v.index)).toEqual(['Abstract.activeMeetingAbstractNumber']);
+    });
+
+    test('deleted records do not conflict with active records', () => {
+        expect(checkUniqueIndices(schema, [
+            record({ '@class': 'User', name: 'alice', deletedAt: 1 }),
+            record({ '@class': 'User', name: 'alice' }),
+        ])).toEqual([]);
+    });
+
+    test('inherited indices across sibling classes', () => {
+        const violations = checkUniqueIndices(schema, [
+            { '@class': 'Disease', uuid: 'abc', sourceId: 'cancer' },
+            { '@class': 'Therapy', uuid: 'abc', sourceId: 'drug' },
+        ]);
+        expect(violations.map((v) => [v.index, v.model, v.records])).toEqual([['ActiveVUUID', 'V', [0, 1]]]);
+    });
+
+    test('edge multiplicity with normalized links', () => {
+        const violations = checkUniqueIndices(schema, [
+            record({ '@class': 'AliasOf', out: '#1:1', in: { '@rid': '#1:2' } }),
+            record({ '@class': 'AliasOf', out: { '@rid': '1:1' }, in: '#1:2' }),
+            record({ '@class': 'DeprecatedBy', out: '#1:1', in: '#1:2' }),
+        ]);
+        expect(violations.map((v) => [v.index, v.records])).toEqual([['AliasOf.restrictMultiplicity', [0, 1]]]);
+    });
+
+    test('reports each violated index', () => {
+        const user = { '@class': 'User', name: 'alice', uuid: 'abc' };
+        expect(checkUniqueIndices(schema, [user, user]).map((v) => v.index).sort()).toEqual(['ActiveUserName', 'ActiveUserUUID']);
+    });
+
+    test('error on unknown class', () => {
+        expect(() => checkUniqueIndices(schema, [{ name: 'alice' }])).toThrow('Unable to retrieve model');
+    });
+
+    test('schema method', () => {
+        expect(schema.checkUniqueIndices([
+            record({ '@class': 'User', name: 'alice' }),
+            record({ '@class': 'User', name: 'alice' }),
+        ])).toHaveLength(1);
+    });
+});
@@ -0,0 +1,107 @@
+import Ajv2020 from 'ajv/dist/2020';
+
+import { schema } from '../src';
+import { JSON_SCHEMA_DIALECT } from '../src/jsonSchema';
+import { SchemaObject } from '../src/types';
+
+interface ClassJsonSchema extends SchemaObject {
+    properties: Record<string, SchemaObject>;
+    required: string[];
+    $defs: Record<string, ClassJsonSchema>;
+}
+
+const classSchema = (modelName: string) => schema.toJsonSchema(modelName) as ClassJsonSchema;
+
+describe('toJsonSchema', () => {
+    test('document header', () => {
+        const result = schema.toJsonSchema('Statement');
+        expect(result).toHaveProperty('$schema', JSON_SCHEMA_DIALECT);
+        expect(result).toHaveProperty('title', 'Statement');
+        expect(result).toHaveProperty('type', 'object');
+    });
+
+    test('includes inherited properties', () => {
+        const { properties } = classSchema('Feature');
+        expect(properties).toHaveProperty('biotype');
+        expect(properties).toHaveProperty('sourceId');
+        expect(properties).toHaveProperty('uuid');
+    });
+
+    test('does not require properties with defaults', () => {
+        const { required } = classSchema('Statement');
+        expect(required).toContain('relevance');
+        expect(required).toContain('createdBy');
+        expect(required).not.toContain('uuid');
+        expect(required).not.toContain('createdAt');
+    });
+
+    test('links are record ID strings', () => {
+        const { properties } = classSchema('Statement');
+        expect(properties.relevance).toHaveProperty('type', 'string');
+        expect(properties.relevance.pattern).toBeDefined();
+        expect(properties.conditions).toHaveProperty('type', 'array');
+        expect(properties.conditions).toHaveProperty('uniqueItems', true);
+        expect(properties.conditions).toHaveProperty('minItems', 1);
+    });
+
+    test('embeddedset has uniqueItems', () => {
+        const { properties } = classSchema('Disease');
+        expect(properties.subsets).toHaveProperty('type', ['array', 'null']);
+        expect(properties.subsets).toHaveProperty('uniqueItems', true);
+        expect(properties.subsets.items).toEqual({ type: ['string', 'null'] });
+    });
+
+    test('nullable choices include null', () => {
+        const { properties } = classSchema('Statement');
+        expect(properties.reviewStatus.enum).toContain(null);
+        expect(properties.reviewStatus).toHaveProperty('type', ['string', 'null']);
+    });
+
+    test('validates null for a nullable choice property', () => {
+        const validate = new Ajv2020({ strict: false }).compile(schema.toJsonSchema('Statement'));
+        const statement = {
+            relevance: '#1:1', subject: '#2:1', conditions: ['#2:1'], evidence: ['#3:1'], createdBy: '#4:1', updatedBy: '#4:1',
+        };
+        expect(validate({ ...statement, reviewStatus: null })).toBe(true);
+        expect(validate({ ...statement, reviewStatus: 'blargh' })).toBe(false);
+    });
+
+    test('flags readOnly and generated properties', () => {
+        const { properties } = classSchema('Statement');
+        expect(properties.uuid).toHaveProperty('readOnly', true);
+        expect(properties.uuid).toHaveProperty('x-generated', true);
+        expect(properties.createdAt).toHaveProperty('x-generated', true);
+        expect(properties.relevance).not.toHaveProperty('x-generated');
+    });
+
+    test('adds defs for position subclasses', () => {
+        const result = classSchema('PositionalVariant');
+        expect(Object.keys(result.$defs)).toContain('ProteinPosition');
+        expect(Object.keys(result.$defs)).not.toContain('Position');
+        expect(result.$defs.ProteinPosition.properties['@class']).toEqual({ const: 'ProteinPosition' });
+        expect(result.$defs.ProteinPosition.required).toContain('@class');
+        expect(result.properties.break1Start.oneOf).toContainEqual({ $ref: '#/$defs/ProteinPosition' });
+    });
+
+    test('adds defs for statement reviews', () => {
+        const result = classSchema('Statement');
+        expect(result.$defs).toHaveProperty('StatementReview');
+        expect(result.$defs.StatementReview.required).toContain('status');
+    });
+
+    test('adds defs for permissions', () => {
+        const result = classSchema('UserGroup');
+        expect(result.$defs).toHaveProperty('Permissions');
+        expect(result.$defs.Permissions.properties.Statement).toEqual({
+            type: 'integer', minimum: 0, maximum: 15,
+        });
+    });
+
+    test('no defs when nothing is embedded', () => {
+        expect(schema.toJsonSchema('Source')).not.toHaveProperty('$defs');
+    });
+
+    test('error on bad model name', () => {
+        expect(() => schema.toJsonSchema('blargh')).toThrow('Unable to retrieve model');
+    });
+});
@@ -0,0 +1,167 @@
+import { schema } from '../src';
+import { createClassDefinition } from '../src/class';
+import { generateMigrationScript, MIGRATION_STEP_ORDER, planMigration } from '../src/migration';
+import { SchemaDefinition } from '../src/schema';
+import { ClassDefinitionInput } from '../src/types';
+
+const createSchema = (...models: ClassDefinitionInput[]) => {
+    const result = {};
+    models.forEach((model) => {
+        result[model.name] = createClassDefinition(model);
+    });
+    return new SchemaDefinition(result);
+};
+
+const base = { name: 'V', isAbstract: true, properties: [{ name: 'deletedAt', type: 'long' as const }] };
+const thing = {
+    name: 'Thing',
+    inherits: ['V'],
+    properties: [
+        { name: 'name', mandatory: true, nullable: false },
+        { name: 'count', type: 'integer' as const },
+    ],
+    indices: [{
+        name: 'Thing.active', type: 'UNIQUE' as const, properties: ['name', 'deletedAt'], class: 'Thing',
+    }],
+};
+const original = createSchema(base, thing);
+
+const withProperties = (...properties: ClassDefinitionInput['properties'][]) => createSchema(
+    base,
+    { ...thing, properties: properties.reduce((acc, props) => [...acc || [], ...props || []], []) },
+);
+
+describe('planMigration', () => {
+    test('no changes', () => {
+        expect(planMigration(schema, schema)).toEqual({ steps: [], warnings: [] });
+    });
+
+    test('new class', () => {
+        const { steps, warnings } = planMigration(original, createSchema(base, thing, {
+            name: 'Other',
+            inherits: ['Thing'],
+            properties: [{
+                name: 'thing', type: 'link', linkedClass: 'Thing', mandatory: true,
+            }],
+        }));
+        expect(steps.map((s) => s.statements)).toEqual([
+            ['CREATE CLASS Other IF NOT EXISTS EXTENDS Thing'],
+            [
+                'CREATE PROPERTY Other.thing IF NOT EXISTS LINK Thing',
+                'ALTER PROPERTY Other.thing MANDATORY TRUE',
+            ],
+        ]);
+        expect(warnings).toEqual([]);
+    });
+
+    test('removed class', () => {
+        const { steps, warnings } = planMigration(original, createSchema(base));
+        expect(steps.map((s) => s.statements)).toEqual([['DROP CLASS Thing UNSAFE']]);
+        expect(warnings).toEqual(['drop the class Thing: all existing Thing records will be deleted']);
+    });
+
+    test('mandatory property with default is backfilled', () => {
+        const { steps, warnings } = planMigration(original, withProperties(thing.properties, [
+            {
+                name: 'sort', type: 'integer', mandatory: true, default: 1,
+            },
+        ]));
+        expect(steps).toEqual([expect.objectContaining({
+            type: 'ADD_PROPERTY',
+            statements: [
+                'CREATE PROPERTY Thing.sort IF NOT EXISTS INTEGER',
+                'UPDATE Thing SET sort = 1 WHERE sort IS NULL',
+                'ALTER PROPERTY Thing.sort MANDATORY TRUE',
+            ],
+        })]);
+        expect(warnings).toEqual([]);
+    });
+
+    test('mandatory property without default warns', () => {
+        const { steps, warnings } = planMigration(original, withProperties(thing.properties, [
+            { name: 'kind', mandatory: true },
+        ]));
+        expect(steps.map((s) => s.statements)).toEqual([[
+            'CREATE PROPERTY Thing.kind IF NOT EXISTS STRING',
+            'ALTER PROPERTY Thing.kind MANDATORY TRUE',
+        ]]);
+        expect(warnings).toEqual([
+            'add the property Thing.kind: existing Thing records must be backfilled with a value for kind before it can be made mandatory',
+        ]);
+    });
+
+    test('removed property', () => {
+        const { steps } = planMigration(original, withProperties(thing.properties.slice(0, 1)));
+        expect(steps.map((s) => s.statements)).toEqual([['DROP PROPERTY Thing.count']]);
+    });
+
+    test('constraint changes', () => {
+        const { steps } = planMigration(original, withProperties([
+            { name: 'name', nullable: false, pattern: '^\\w+$' },
+            { name: 'count', type: 'integer', minimum: 0 },
+        ]));
+        expect(steps.filter((s) => s.type === 'ALTER_PROPERTY').map((s) => s.statements)).toEqual([
+            ['ALTER PROPERTY Thing.name MANDATORY FALSE', 'ALTER PROPERTY Thing.name REGEXP "^\\\\w+$"'],
+            ['ALTER PROPERTY Thing.count MIN 0'],
+        ]);
+    });
+
+    test('drops indices before changing the properties they cover', () => {
+        const { steps, warnings } = planMigration(original, withProperties([
+            {
+                name: 'name', type: 'integer', mandatory: true, nullable: false,
+            },
+            thing.properties[1],
+        ]));
+        expect(steps.map((s) => [s.type, s.statements])).toEqual([
+            ['DROP_INDEX', ['DROP INDEX Thing.active']],
+            ['ALTER_PROPERTY', ['ALTER PROPERTY Thing.name TYPE INTEGER']],
+            ['CREATE_INDEX', ['CREATE INDEX Thing.active IF NOT EXISTS ON Thing (name, deletedAt) UNIQUE']],
+        ]);
+        expect(warnings).toHaveLength(2);
+    });
+
+    test('rebuilds indices of subclasses covering inherited properties', () => {
+        const { steps } = planMigration(original, createSchema(
+            { ...base, properties: [{ name: 'deletedAt', type: 'long', nullable: false }] },
+            thing,
+        ));
+        expect(steps.map((s) => s.type)).toEqual(['DROP_INDEX', 'ALTER_PROPERTY', 'CREATE_INDEX']);
+        expect(steps[1].warning).toBe('existing V records must be backfilled with a value for deletedAt before it can be made not null');
+    });
+
+    test('changed index', () => {
+        const { steps } = planMigration(original, createSchema(base, {
+            ...thing,
+            indices: [{ ...thing.indices[0], properties: ['name'] }],
+        }));
+        expect(steps.map((s) => s.statements[0])).toEqual([
+            'DROP INDEX Thing.active',
+            'CREATE INDEX Thing.active IF NOT EXISTS ON Thing (name) UNIQUE',
+        ]);
+    });
+
+    test('abstract class', () => {
+        const { steps, warnings } = planMigration(original, createSchema(base, { ...thing, isAbstract: true }));
+        expect(steps.map((s) => s.statements)).toEqual([['ALTER CLASS Thing ABSTRACT TRUE']]);
+        expect(warnings).toHaveLength(1);
+    });
+
+    test('steps are ordered by type', () => {
+        const { steps } = planMigration(original, createSchema(
+            base,
+            { ...thing, properties: [{ name: 'label' }], indices: [] },
+            { name: 'Other', inherits: ['V'] },
+        ));
+        const order = steps.map((s) => MIGRATION_STEP_ORDER.indexOf(s.type));
+        expect(order).toEqual([...order].sort());
+        expect(steps.map((s) => s.type)).toEqual(['CREATE_CLASS', 'DROP_INDEX', 'ADD_PROPERTY', 'DROP_PROPERTY', 'DROP_PROPERTY']);
+    });
+});
+
+describe('generateMigrationScript', () => {
+    test('one statement per line', () => {
+        const plan = planMigration(original, withProperties(thing.properties, [{ name: 'sort', type: 'integer', default: 1 }]));
+        expect(generateMigrationScript(plan)).toBe('CREATE PROPERTY Thing.sort IF NOT EXISTS INTEGER;\n');
+    });
+});
@@ -0,0 +1,116 @@
+import { schema } from '../src';
+import { createClassDefinition } from '../src/class';
+import { propertyToOpenApi } from '../src/openapi';
+import { SchemaDefinition } from '../src/schema';
+import { SchemaObject } from '../src/types';
+
+describe('toOpenApiSchemas', () => {
+    const schemas = schema.toOpenApiSchemas();
+    // the properties defined on the class itself follow the reference to its parent class
+    const classBody = (name: string) => (schemas[name].allOf as SchemaObject[])[1] as {
+        required: string[];
+        properties: Record<string, SchemaObject>;
+    };
+
+    test('includes every model and the record id', () => {
+        expect(Object.keys(schemas).sort()).toEqual(
+            ['RecordId', ...schema.getModels().map((m) => m.name)].sort(),
+        );
+    });
+
+    test('uses allOf for inherited classes', () => {
+        expect(schemas.Ontology.allOf).toEqual([
+            { $ref: '#/components/schemas/V' },
+            { $ref: '#/components/schemas/Biomarker' },
+            expect.objectContaining({ type: 'object' }),
+        ]);
+    });
+
+    test('base class is a plain object schema', () => {
+        expect(schemas.V).toHaveProperty('type', 'object');
+        expect(schemas.V).not.toHaveProperty('allOf');
+    });
+
+    test('mandatory properties are required', () => {
+        const body = classBody('Statement');
+        expect(body.required.sort()).toEqual(['conditions', 'evidence', 'relevance', 'subject']);
+    });
+
+    test('choices become enum', () => {
+        const body = classBody('Feature');
+        expect(body.properties.biotype.enum).toEqual(['gene', 'protein', 'transcript', 'exon', 'chromosome']);
+        expect(body.properties.biotype).not.toHaveProperty('nullable');
+    });
+
+    test('links reference the record id or the linked class', () => {
+        const body = classBody('Statement');
+        expect(body.properties.relevance.anyOf).toEqual([
+            { $ref: '#/components/schemas/RecordId' },
+            { $ref: '#/components/schemas/Vocabulary' },
+        ]);
+        expect(body.properties.conditions).toHaveProperty('type', 'array');
+        expect(body.properties.conditions).toHaveProperty('minItems', 1);
+        expect(body.properties.conditions).toHaveProperty('uniqueItems', true);
+    });
+
+    test('embedded position is a discriminated oneOf', () => {
+        const body = classBody('PositionalVariant');
+        const { break1Start } = body.properties;
+        expect(break1Start.discriminator).toHaveProperty('propertyName', '@class');
+        expect(break1Start.oneOf).toContainEqual({ $ref: '#/components/schemas/ProteinPosition' });
+        expect(break1Start.oneOf).not.toContainEqual({ $ref: '#/components/schemas/Position' });
+    });
+
+    test('embedded class without subclasses is a reference', () => {
+        const body = classBody('Statement');
+        expect(body.properties.reviews.items).toEqual({ $ref: '#/components/schemas/StatementReview' });
+    });
+
+    test('output is plain JSON', () => {
+        expect(JSON.parse(JSON.stringify(schemas))).toEqual(schemas);
+    });
+});
+
+describe('propertyToOpenApi', () => {
+    const mockSchema = new SchemaDefinition({
+        example: createClassDefinition({ name: 'example' }),
+    });
+
+    test('integer constraints', () => {
+        const { pos } = createClassDefinition({
+            name: 'example',
+            properties: [{
+                name: 'pos', minimum: 1, maximum: 10, examples: [2], description: 'position',
+            }],
+        }).properties;
+        expect(propertyToOpenApi(mockSchema, pos)).toEqual({
+            type: 'integer',
+            minimum: 1,
+            maximum: 10,
+            example: 2,
+            description: 'position',
+            nullable: true,
+        });
+    });
+
+    test('iterable examples are arrays', () => {
+        const { subsets } = createClassDefinition({
+            name: 'example',
+            properties: [{
+                name: 'subsets', type: 'embeddedset', linkedType: 'string', examples: ['a'], pattern: '^\\w+$',
+            }],
+        }).properties;
+        expect(propertyToOpenApi(mockSchema, subsets)).toEqual({
+            type: 'array',
+            items: { type: 'string', pattern: '^\\w+$' },
+            uniqueItems: true,
+            example: ['a'],
+            nullable: true,
+        });
+    });
+
+    test('generated properties are readOnly', () => {
+        const { uuid } = schema.models.V.properties;
+        expect(propertyToOpenApi(schema, uuid)).toHaveProperty('readOnly', true);
+    });
+});
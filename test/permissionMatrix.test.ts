@@ -0,0 +1,71 @@
+import { schema, PERMISSIONS } from '../src';
+import {
+    exportPermissionMatrix, generatePermissionMatrix, GROUP_NAMES, permissionsString,
+} from '../src/permissionMatrix';
+
+describe('permissionsString', () => {
+    test.each([
+        [PERMISSIONS.NONE, '----'],
+        [PERMISSIONS.ALL, 'CRUD'],
+        [PERMISSIONS.READ | PERMISSIONS.UPDATE, '-RU-'],
+    ])('%i', (bits, expected) => {
+        expect(permissionsString(bits)).toBe(expected);
+    });
+});
+
+describe('generatePermissionMatrix', () => {
+    const rows = generatePermissionMatrix(schema);
+    const row = (name: string) => rows.find((r) => r.model === name);
+
+    test('a row for every class and group', () => {
+        expect(rows).toHaveLength(schema.getModels().length);
+        rows.forEach((r) => {
+            expect(Object.keys(r.groups)).toEqual(GROUP_NAMES);
+        });
+    });
+
+    test('decodes the group permissions', () => {
+        expect(row('Source')?.groups.regular).toEqual({
+            bits: PERMISSIONS.CREATE | PERMISSIONS.READ | PERMISSIONS.UPDATE,
+            permissions: ['CREATE', 'READ', 'UPDATE'],
+            beyondRoutes: [],
+        });
+    });
+
+    test('uses the class default for groups without explicit permissions', () => {
+        expect(row('Source')?.groups.readonly.bits).toBe(PERMISSIONS.READ);
+        expect(row('Statement')?.groups.manager.bits).toBe(schema.get('Statement').permissions.default);
+    });
+
+    test('lists abstract ancestors', () => {
+        expect(row('Publication')?.abstractAncestors).toEqual(expect.arrayContaining(['Evidence', 'Ontology', 'V']));
+        expect(row('V')?.isAbstract).toBe(true);
+    });
+
+    test('highlights permissions broader than the routes', () => {
+        // embedded classes have no routes but are still readable by the readonly group
+        expect(row('StatementReview')?.routes).toEqual([]);
+        expect(row('StatementReview')?.groups.readonly.beyondRoutes).toEqual(['READ']);
+        expect(row('V')?.groups.readonly.beyondRoutes).toEqual([]);
+    });
+});
+
+describe('exportPermissionMatrix', () => {
+    test('json', () => {
+        expect(JSON.parse(exportPermissionMatrix(schema))).toEqual(JSON.parse(JSON.stringify(generatePermissionMatrix(schema))));
+    });
+
+    test('csv', () => {
+        const lines = exportPermissionMatrix(schema, 'csv').trim().split('\n');
+        expect(lines[0]).toBe('class,abstract,abstractAncestors,routes,readonly,readonlyBeyondRoutes,regular,regularBeyondRoutes,manager,managerBeyondRoutes,admin,adminBeyondRoutes');
+        expect(lines).toContain('Source,false,V Evidence,CREATE READ UPDATE DELETE,-R--,,CRU-,,CRU-,,CRUD,');
+    });
+
+    test('markdown', () => {
+        const lines = exportPermissionMatrix(schema, 'markdown').trim().split('\n');
+        expect(lines[0]).toBe('| Class | Abstract Ancestors | Routes | readonly | regular | manager | admin |');
+        expect(lines).toContain('| Source | V, Evidence | CRUD | -R-- | CRU- | CRU- | CRUD |');
+        expect(lines).toContain('| V (abstract) |  | -R-- | -R-- | -R-- | -R-- | -R-- |');
+        expect(lines).toContain('| StatementReview |  | ---- | **-R--** (not routed: READ) | ---- | ---- | ---- |');
+    });
+});
@@ -0,0 +1,200 @@
+import { schema, PERMISSIONS } from '../src';
+import {
+    checkGroupRestrictions, decodePermissions, projectRecord, propertyPermissions, resolvePermissions,
+} from '../src/permissions';
+
+const regular = { '@rid': '#33:1', name: 'regular' };
+const admin = { '@rid': '#33:0', name: 'admin' };
+const readonly = { '@rid': '#33:3', name: 'readonly' };
+const custom = { '@rid': '#33:4', name: 'custom' };
+
+describe('decodePermissions', () => {
+    test.each([
+        [PERMISSIONS.NONE, []],
+        [PERMISSIONS.ALL, ['CREATE', 'READ', 'UPDATE', 'DELETE']],
+        [PERMISSIONS.READ | PERMISSIONS.UPDATE, ['READ', 'UPDATE']],
+    ])('%i', (bits, expected) => {
+        expect(decodePermissions(bits)).toEqual(expected);
+    });
+});
+
+describe('checkGroupRestrictions', () => {
+    test('unrestricted record', () => {
+        expect(checkGroupRestrictions({ groups: [] }, { groupRestrictions: [] })).toBeNull();
+        expect(checkGroupRestrictions({ groups: [] }, {})).toBeNull();
+    });
+
+    test('user in restricted group', () => {
+        expect(checkGroupRestrictions({ groups: ['33:1'] }, { groupRestrictions: ['#33:1', '#33:0'] })).toBeNull();
+    });
+
+    test('user not in restricted group', () => {
+        expect(checkGroupRestrictions({ groups: [regular] }, { groupRestrictions: [admin] }))
+            .toBe('the record is restricted to the groups [#33:0]');
+    });
+});
+
+describe('resolvePermissions', () => {
+    test('class permissions for the group', () => {
+        const result = resolvePermissions(schema, { groups: [regular] }, 'Source');
+        expect(result.permissions).toBe(PERMISSIONS.CREATE | PERMISSIONS.READ | PERMISSIONS.UPDATE);
+        expect(result.decisions).toEqual([
+            {
+                permission: 'CREATE', granted: true, group: 'regular', reason: 'granted by the Source class permissions for the regular group',
+            },
+            expect.objectContaining({ permission: 'READ', granted: true }),
+            expect.objectContaining({ permission: 'UPDATE', granted: true }),
+            expect.objectContaining({ permission: 'DELETE', granted: false }),
+        ]);
+    });
+
+    test('class default permissions', () => {
+        const { permissions, decisions } = resolvePermissions(schema, { groups: [custom] }, 'Statement');
+        expect(permissions).toBe(schema.get('Statement').permissions.default);
+        expect(decisions[1]).toHaveProperty('reason', 'granted by the Statement class default permissions');
+    });
+
+    test('combines the permissions of all groups', () => {
+        const { permissions, decisions } = resolvePermissions(schema, { groups: [readonly, admin] }, 'Source');
+        expect(permissions).toBe(PERMISSIONS.ALL);
+        expect(decisions.map((d) => d.group)).toEqual(['admin', 'readonly', 'admin', 'admin']);
+    });
+
+    test('UserGroup record permissions take precedence', () => {
+        const group = { ...regular, permissions: { Source: PERMISSIONS.READ } };
+        const { permissions, decisions } = resolvePermissions(schema, { groups: [group] }, 'Source');
+        expect(permissions).toBe(PERMISSIONS.READ);
+        expect(decisions[1].reason).toBe('granted by the permissions of the UserGroup record regular');
+        expect(decisions[0].reason).toBe('not granted by any of the user groups (regular: the permissions of the UserGroup record regular)');
+    });
+
+    test('groups which are not expanded do not grant permissions', () => {
+        const { permissions, decisions } = resolvePermissions(schema, { groups: ['#33:1'] }, 'Source');
+        expect(permissions).toBe(PERMISSIONS.NONE);
+        expect(decisions[0].reason).toBe('the user does not belong to any (expanded) groups');
+    });
+
+    test('null and unexpanded group links are ignored', () => {
+        const { permissions } = resolvePermissions(schema, { groups: [null, '#33:0', regular] }, 'Source');
+        expect(permissions).toBe(resolvePermissions(schema, { groups: [regular] }, 'Source').permissions);
+        expect(resolvePermissions(schema, { groups: [null] }, 'Source').permissions).toBe(PERMISSIONS.NONE);
+    });
+
+    test('restricted record', () => {
+        const user = { groups: [regular] };
+        const record = { groupRestrictions: ['#33:0'] };
+        const { permissions, decisions } = resolvePermissions(schema, user, 'Source', record);
+        expect(permissions).toBe(PERMISSIONS.NONE);
+        expect(decisions.every((d) => d.reason === 'the record is restricted to the groups [#33:0]')).toBe(true);
+        expect(schema.resolvePermissions({ groups: [admin] }, 'Source', record).permissions).toBe(PERMISSIONS.ALL);
+    });
+});
+
+describe('checkRecordAccess', () => {
+    const user = { groups: [regular] };
+    const restricted = { groupRestrictions: [admin] };
+
+    test('restricted record', () => {
+        expect(schema.checkRecordAccess(user, 'Statement', { ...restricted })).toEqual({
+            accessible: false,
+            reason: 'the record is restricted to the groups [#33:0]',
+            redact: [],
+        });
+    });
+
+    test('unexpanded links are not checked', () => {
+        expect(schema.checkRecordAccess(user, 'Statement', { evidence: ['#44:1'], subject: '#44:2' }))
+            .toEqual({ accessible: true, redact: [] });
+    });
+
+    test('restricted linked records', () => {
+        const record = {
+            evidence: [
+                { '@rid': '#44:1', '@class': 'Publication' },
+                { '@rid': '#44:2', '@class': 'Publication', ...restricted },
+            ],
+            subject: { '@rid': '#44:3', '@class': 'Disease', groupRestrictions: [regular] },
+            relevance: { '@rid': '#44:4', ...restricted },
+        };
+        expect(schema.checkRecordAccess(user, 'Statement', record)).toEqual({
+            accessible: true,
+            redact: ['relevance', 'evidence[1]'],
+        });
+    });
+
+    test('nested linked records', () => {
+        const record = {
+            conditions: [{
+                '@rid': '#44:1',
+                '@class': 'PositionalVariant',
+                reference1: { '@rid': '#44:2', '@class': 'Feature', source: { '@rid': '#44:3', ...restricted } },
+            }],
+        };
+        expect(schema.checkRecordAccess(user, 'Statement', record).redact).toEqual(['conditions[0].reference1.source']);
+    });
+
+    test('circular links', () => {
+        const linked: Record<string, unknown> = { '@rid': '#44:1', '@class': 'Disease' };
+        linked.subsetOf = linked;
+        expect(schema.checkRecordAccess(user, 'Disease', linked)).toEqual({ accessible: true, redact: [] });
+    });
+});
+
+describe('projectRecord', () => {
+    const manager = { '@rid': '#33:2', name: 'manager' };
+    const user = {
+        '@rid': '#20:0', name: 'bob', email: 'bob@example.com', loginCount: 3,
+    };
+
+    test('properties without permissions are not restricted', () => {
+        expect(propertyPermissions(schema.getProperty('User', 'name'), { groups: [] })).toBe(PERMISSIONS.ALL);
+    });
+
+    test.each([
+        [[regular], PERMISSIONS.READ],
+        [[manager], PERMISSIONS.ALL],
+        [[regular, admin], PERMISSIONS.ALL],
+        [[], PERMISSIONS.NONE],
+    ])('reviewStatus permissions (%#)', (groups, expected) => {
+        expect(propertyPermissions(schema.getProperty('Statement', 'reviewStatus'), { groups })).toBe(expected);
+    });
+
+    test('strips hidden properties', () => {
+        expect(schema.projectRecord({ groups: [regular] }, 'User', user)).toEqual({ '@rid': '#20:0', name: 'bob' });
+        expect(schema.projectRecord({ groups: [admin] }, 'User', user)).toEqual(user);
+    });
+
+    test('strips hidden properties of expanded linked records', () => {
+        const record = { '@rid': '#44:0', createdBy: user, relevance: '#45:1' };
+        expect(schema.projectRecord({ groups: [regular] }, 'Statement', record)).toEqual({
+            '@rid': '#44:0', createdBy: { '@rid': '#20:0', name: 'bob' }, relevance: '#45:1',
+        });
+        expect(record.createdBy).toBe(user);
+    });
+
+    test('strips hidden properties of circular linked records', () => {
+        const record: Record<string, unknown> = { ...user };
+        record.createdBy = record;
+        const result = schema.projectRecord({ groups: [regular] }, 'User', record);
+        expect(result).not.toHaveProperty('email');
+        expect(result.createdBy).toBe(result);
+    });
+
+    test('rejects setting properties without write permission', () => {
+        expect(() => schema.projectRecord({ groups: [regular] }, 'Statement', { reviewStatus: 'passed' }, 'UPDATE'))
+            .toThrow('The user does not have UPDATE permission on the property Statement.reviewStatus');
+    });
+
+    test('error for properties without write permission has the structured fields', () => {
+        expect(() => projectRecord(schema, { groups: [regular] }, 'Statement', { reviewStatus: 'passed' }, 'CREATE')).toThrow(
+            expect.objectContaining({
+                code: 'FORBIDDEN_PROPERTY', field: 'reviewStatus', constraint: 'permission', constraintValue: 'CREATE',
+            }),
+        );
+    });
+
+    test('allows setting properties with write permission', () => {
+        const record = { reviewStatus: 'passed', description: 'blargh' };
+        expect(schema.projectRecord({ groups: [manager] }, 'Statement', record, 'UPDATE')).toEqual(record);
+    });
+});
@@ -0,0 +1,153 @@
+import {
+    breakRange,
+    comparePositions,
+    positionLessThan,
+    positionsEqual,
+    rangeContains,
+    rangesOverlap,
+} from '../src/positions';
+import { PositionRange, PositionRecord } from '../src/types';
+
+const genomic = (pos: number | null) => ({ '@class': 'GenomicPosition', pos });
+const cds = (pos: number | null, offset?: number) => ({ '@class': 'CdsPosition', pos, offset });
+const cytoband = (arm: string, majorBand?: number, minorBand?: number) => ({
+    '@class': 'CytobandPosition', arm, majorBand, minorBand,
+});
+
+describe('comparePositions', () => {
+    test('sorts genomic positions', () => {
+        expect([genomic(10), genomic(5), genomic(7)].sort(comparePositions)).toEqual([genomic(5), genomic(7), genomic(10)]);
+    });
+
+    test('sorts cds positions by offset', () => {
+        expect([cds(11, -3), cds(10, 4), cds(10)].sort(comparePositions)).toEqual([cds(10), cds(10, 4), cds(11, -3)]);
+    });
+
+    test('sorts cytobands from the end of the p arm to the end of the q arm', () => {
+        const sorted = [cytoband('q', 22), cytoband('p', 11, 2), cytoband('q', 11), cytoband('p', 22), cytoband('p', 11)]
+            .sort(comparePositions);
+        expect(sorted).toEqual([cytoband('p', 22), cytoband('p', 11), cytoband('p', 11, 2), cytoband('q', 11), cytoband('q', 22)]);
+    });
+
+    test('error on different coordinate systems', () => {
+        expect(() => comparePositions(genomic(1), cds(1))).toThrow(
+            'Unable to compare positions in different coordinate systems (GenomicPosition and CdsPosition)',
+        );
+    });
+
+    test('error on unknown position class', () => {
+        expect(() => comparePositions({ '@class': 'Position' }, { '@class': 'Position' })).toThrow('Unable to compare positions of the class Position');
+    });
+});
+
+describe('positionsEqual', () => {
+    test('same position', () => {
+        // refAA is not a CDS position property and should be ignored by the comparison
+        const withRefAA = { ...cds(10, 2), refAA: 'A' } as unknown as PositionRecord;
+        expect(positionsEqual(withRefAA, cds(10, 2))).toBe(true);
+    });
+
+    test('missing offset is zero', () => {
+        expect(positionsEqual(cds(10, 0), cds(10))).toBe(true);
+    });
+
+    test('different offset', () => {
+        expect(positionsEqual(cds(10, 1), cds(10))).toBe(false);
+    });
+
+    test('band does not equal its sub-band', () => {
+        expect(positionsEqual(cytoband('p', 11), cytoband('p', 11, 2))).toBe(false);
+    });
+});
+
+describe('positionLessThan', () => {
+    test.each([
+        [genomic(1), genomic(2), true],
+        [genomic(2), genomic(2), false],
+        [cds(10, 4), cds(11, -3), true],
+        [cds(10, 4), cds(10, -3), false],
+        [cytoband('p', 12), cytoband('p', 11, 1), true],
+        [cytoband('p', 11), cytoband('q', 11), true],
+        [cytoband('p', 11), cytoband('p', 11, 2), false],
+        [genomic(null), genomic(2), false],
+        [genomic(2), genomic(null), false],
+    ])('%o < %o', (position1, position2, expected) => {
+        expect(positionLessThan(position1, position2)).toBe(expected);
+    });
+
+    test('error on different coordinate systems', () => {
+        expect(() => positionLessThan(cytoband('p', 1), genomic(1))).toThrow('different coordinate systems');
+    });
+});
+
+describe('rangeContains', () => {
+    test('position within range', () => {
+        expect(rangeContains({ start: genomic(100), end: genomic(200) }, genomic(150))).toBe(true);
+    });
+
+    test('position outside range', () => {
+        expect(rangeContains({ start: genomic(100), end: genomic(200) }, genomic(201))).toBe(false);
+    });
+
+    test('range within range', () => {
+        expect(rangeContains({ start: cds(100), end: cds(200) }, { start: cds(100, 5), end: cds(150) })).toBe(true);
+    });
+
+    test('partially overlapping range', () => {
+        expect(rangeContains({ start: cds(100), end: cds(200) }, { start: cds(99, 5), end: cds(150) })).toBe(false);
+    });
+
+    test('band contains its sub-bands', () => {
+        expect(rangeContains({ start: cytoband('p', 11) }, { start: cytoband('p', 11, 4), end: cytoband('p', 11, 1) })).toBe(true);
+    });
+
+    test('unknown end is open', () => {
+        expect(rangeContains({ start: genomic(100), end: genomic(null) }, genomic(1000000))).toBe(true);
+    });
+
+    test('error on different coordinate systems', () => {
+        expect(() => rangeContains({ start: genomic(1), end: genomic(5) }, { start: cds(2) })).toThrow('different coordinate systems');
+    });
+
+    test('error on mixed range', () => {
+        expect(() => rangeContains({ start: genomic(1), end: cds(5) }, genomic(2))).toThrow('different coordinate systems');
+    });
+
+    test('error on range ending before it starts', () => {
+        expect(() => rangeContains({ start: genomic(5), end: genomic(1) }, genomic(2))).toThrow('must not be before the start');
+    });
+});
+
+describe('rangesOverlap', () => {
+    test.each([
+        [{ start: genomic(1), end: genomic(10) }, { start: genomic(10), end: genomic(20) }, true],
+        [{ start: genomic(1), end: genomic(10) }, { start: genomic(11), end: genomic(20) }, false],
+        [{ start: genomic(1), end: genomic(10) }, genomic(5), true],
+        [{ start: cds(10, 1), end: cds(10, 5) }, cds(10), false],
+        [{ start: cytoband('p', 11) }, { start: cytoband('p', 11, 2), end: cytoband('q', 12) }, true],
+        [{ start: cytoband('p', 13), end: cytoband('p', 12) }, cytoband('p', 11, 2), false],
+    ])('%o overlaps %o', (range1, range2, expected) => {
+        expect(rangesOverlap(range1, range2)).toBe(expected);
+        expect(rangesOverlap(range2, range1)).toBe(expected);
+    });
+
+    test('error on different coordinate systems', () => {
+        expect(() => rangesOverlap({ start: cytoband('p', 1) }, { start: genomic(1) })).toThrow('different coordinate systems');
+    });
+});
+
+describe('breakRange', () => {
+    test('break with end', () => {
+        expect(breakRange({ break1Start: genomic(1), break1End: genomic(5) }, 'break1')).toEqual({ start: genomic(1), end: genomic(5) });
+    });
+
+    test('missing break', () => {
+        expect(breakRange({ break1Start: genomic(1) }, 'break2')).toBeNull();
+    });
+
+    test('variant breakpoints overlap', () => {
+        const variant1 = { break1Start: genomic(100), break1End: genomic(200) };
+        const variant2 = { break1Start: genomic(150) };
+        expect(rangesOverlap(breakRange(variant1, 'break1') as PositionRange, breakRange(variant2, 'break1') as PositionRange)).toBe(true);
+    });
+});
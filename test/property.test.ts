@@ -1,4 +1,5 @@
 import { validateProperty, createPropertyDefinition } from '../src/property';
+import { ValidationError } from '../src/error';
 
 test('cast choices if given', () => {
     const prop = createPropertyDefinition({
@@ -149,3 +150,69 @@ describe('validate', () => {
         expect(() => validateProperty(prop, '100')).toThrowError('Violated the choices constraint');
     });
 });
+
+describe('error codes', () => {
+    const catchError = (func) => {
+        try {
+            func();
+        } catch (err) {
+            return err as ValidationError;
+        }
+        throw new Error('expected an error to be thrown');
+    };
+
+    test.each([
+        [{ name: 'example', nullable: false }, null, 'NOT_NULLABLE', 'nullable', false],
+        [{ name: 'example', type: 'integer' as const }, 'blargh', 'CAST_FAILED', 'cast', undefined],
+        [{ name: 'example', nonEmpty: true, cast: (x) => x }, '', 'EMPTY_STRING', 'nonEmpty', true],
+        [{ name: 'example', minimum: 2 }, 1, 'BELOW_MINIMUM', 'minimum', 2],
+        [{ name: 'example', maximum: 2 }, 3, 'ABOVE_MAXIMUM', 'maximum', 2],
+        [{ name: 'example', pattern: '^\\d+$' }, 'a', 'PATTERN_MISMATCH', 'pattern', '^\\d+$'],
+        [{ name: 'example', choices: ['a', 'b'] }, 'c', 'INVALID_CHOICE', 'choices', ['a', 'b']],
+        [{ name: 'example', minItems: 1, type: 'embeddedlist' as const }, [], 'TOO_FEW_ITEMS', 'minItems', 1],
+        [{ name: 'example', maxItems: 0, type: 'embeddedlist' as const }, [1], 'TOO_MANY_ITEMS', 'maxItems', 0],
+        [{ name: 'example' }, ['a', 'b'], 'NOT_ITERABLE', 'iterable', undefined],
+    ])('%o with %o is %s', (propDefn, value, code, constraint, constraintValue) => {
+        const prop = createPropertyDefinition(propDefn);
+        const err = catchError(() => validateProperty(prop, value));
+        expect(err).toBeInstanceOf(ValidationError);
+        expect(err.code).toBe(code);
+        expect(err.field).toBe('example');
+        expect(err.constraint).toBe(constraint);
+        expect(err.constraintValue).toEqual(constraintValue);
+    });
+
+    test('check constraint is the check name', () => {
+        const checkIsOne = (input) => input === '1';
+        const prop = createPropertyDefinition({ name: 'example', check: checkIsOne });
+        const err = catchError(() => validateProperty(prop, '2'));
+        expect(err.code).toBe('CHECK_FAILED');
+        expect(err.constraint).toBe('checkIsOne');
+        expect(err.value).toBe('2');
+    });
+
+    test('toJSON includes the structured fields', () => {
+        const prop = createPropertyDefinition({ name: 'example', pattern: '^\\d+$' });
+        const json = JSON.parse(JSON.stringify(catchError(() => validateProperty(prop, 'a'))));
+        expect(json).toEqual(expect.objectContaining({
+            name: 'ValidationError',
+            code: 'PATTERN_MISMATCH',
+            field: 'example',
+            model: null,
+            constraint: 'pattern',
+            constraintValue: '^\\d+$',
+            value: 'a',
+        }));
+        expect(json).not.toHaveProperty('stacktrace');
+    });
+
+    test('toJSON decycles a self-referencing value', () => {
+        const value: Record<string, unknown> = { name: 'record' };
+        value.self = value;
+        const err = new ValidationError({ message: 'bad record', code: 'CHECK_FAILED', value });
+        const json = JSON.parse(JSON.stringify(err));
+        expect(json.value).toEqual({ name: 'record', self: { $ref: '$["value"]' } });
+        expect(json).toHaveProperty('code', 'CHECK_FAILED');
+        expect(json).not.toHaveProperty('stacktrace');
+    });
+});
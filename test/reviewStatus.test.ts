@@ -0,0 +1,132 @@
+import { schema } from '../src';
+import { aggregateReviewStatus, checkReviewStatus, generateReviewStatus } from '../src/reviewStatus';
+
+describe('aggregateReviewStatus', () => {
+    test('no reviews', () => {
+        expect(aggregateReviewStatus([])).toBeNull();
+    });
+
+    test.each([
+        [['passed'], 'passed'],
+        [['passed', 'failed'], 'failed'],
+        [['passed', 'pending'], 'pending'],
+        [['not required', 'passed'], 'passed'],
+        [['initial', 'not required'], 'not required'],
+    ])('reviewers %o', (statuses, expected) => {
+        const reviews = statuses.map((status, index) => ({ status, createdBy: `#20:${index}`, createdAt: 1 }));
+        expect(aggregateReviewStatus(reviews)).toBe(expected);
+    });
+
+    test('uses the latest review of each reviewer', () => {
+        expect(aggregateReviewStatus([
+            { status: 'passed', createdBy: '#20:0', createdAt: 2 },
+            { status: 'failed', createdBy: { '@rid': '#20:0' }, createdAt: 1 },
+        ])).toBe('passed');
+    });
+
+    test('latest review of each reviewer with multiple reviewers', () => {
+        expect(aggregateReviewStatus([
+            { status: 'failed', createdBy: '#20:0', createdAt: 1 },
+            { status: 'passed', createdBy: '#20:0', createdAt: 2 },
+            { status: 'pending', createdBy: '#20:1', createdAt: 1 },
+        ])).toBe('pending');
+    });
+
+    test('later review in the list wins ties in createdAt', () => {
+        expect(aggregateReviewStatus([
+            { status: 'failed', createdBy: '#20:0', createdAt: 1 },
+            { status: 'passed', createdBy: '#20:0', createdAt: 1 },
+        ])).toBe('passed');
+    });
+
+    test('reviews without a reviewer are all used', () => {
+        expect(aggregateReviewStatus([
+            { status: 'failed', createdAt: 1 },
+            { status: 'passed', createdAt: 2 },
+        ])).toBe('failed');
+    });
+
+    test('error on unexpected status', () => {
+        expect(() => aggregateReviewStatus([{ status: 'blargh' }])).toThrow('Unexpected review status (blargh)');
+    });
+});
+
+describe('generateReviewStatus', () => {
+    test('statement without reviews', () => {
+        expect(generateReviewStatus({})).toBeUndefined();
+    });
+
+    test('statement with reviews', () => {
+        expect(generateReviewStatus({ reviews: [{ status: 'passed' }] })).toBe('passed');
+    });
+});
+
+describe('checkReviewStatus', () => {
+    test('consistent status', () => {
+        expect(() => checkReviewStatus({ reviews: [{ status: 'failed' }], reviewStatus: 'failed' })).not.toThrow();
+    });
+
+    test('any status without reviews', () => {
+        expect(() => checkReviewStatus({ reviews: [], reviewStatus: 'passed' })).not.toThrow();
+    });
+
+    test('inconsistent status', () => {
+        expect(() => checkReviewStatus({ reviews: [{ status: 'failed' }], reviewStatus: 'passed' })).toThrow(
+            'The reviewStatus (passed) is not consistent with the reviews (expected failed)',
+        );
+    });
+});
+
+describe('Statement.reviewStatus', () => {
+    const userArgs = { updatedBy: '#4:3', createdBy: '#4:3' };
+    const statement = {
+        conditions: ['#3:1'],
+        evidence: ['#3:2'],
+        relevance: '#3:3',
+        subject: '#3:1',
+        ...userArgs,
+    };
+
+    test('generated from the reviews', () => {
+        const record = schema.formatRecord('Statement', {
+            ...statement,
+            reviews: [
+                { status: 'passed', createdBy: '#4:3', createdAt: 1 },
+                { status: 'failed', createdBy: '#4:4', createdAt: 1 },
+            ],
+        });
+        expect(record).toHaveProperty('reviewStatus', 'failed');
+    });
+
+    test('not generated without reviews', () => {
+        expect(schema.formatRecord('Statement', statement)).not.toHaveProperty('reviewStatus', expect.anything());
+    });
+
+    test('manual status must agree with the reviews', () => {
+        expect(() => schema.formatRecord('Statement', {
+            ...statement,
+            reviews: [{ status: 'failed', createdBy: '#4:3', createdAt: 1 }],
+            reviewStatus: 'passed',
+        })).toThrow('not consistent with the reviews');
+    });
+
+    test('updated when a review is added', () => {
+        const existing = schema.formatRecord('Statement', {
+            ...statement,
+            reviews: [{ status: 'pending', createdBy: '#4:3', createdAt: 1 }],
+        });
+        const { record, changes } = schema.formatRecordUpdate('Statement', existing, {
+            reviews: [...existing.reviews as unknown[], { status: 'passed', createdBy: '#4:3', createdAt: 2 }],
+        });
+        expect(record).toHaveProperty('reviewStatus', 'passed');
+        expect(changes.sort()).toEqual(['reviewStatus', 'reviews']);
+    });
+
+    test('error on inconsistent update', () => {
+        const existing = schema.formatRecord('Statement', {
+            ...statement,
+            reviews: [{ status: 'failed', createdBy: '#4:3', createdAt: 1 }],
+        });
+        expect(() => schema.formatRecordUpdate('Statement', existing, { reviewStatus: 'passed' })).toThrow('not consistent with the reviews');
+    });
+});
@@ -0,0 +1,79 @@
+import { schema } from '../src';
+import { PERMISSIONS, RID_PATTERN } from '../src/constants';
+
+describe('getRoutes', () => {
+    const routes = schema.getRoutes();
+
+    test('exposes all statement routes', () => {
+        const statementRoutes = routes.filter((r) => r.model === 'Statement');
+        expect(statementRoutes.map((r) => [r.method, r.path, r.permission])).toEqual([
+            ['get', '/statements', PERMISSIONS.READ],
+            ['post', '/statements', PERMISSIONS.CREATE],
+            ['get', '/statements/{rid}', PERMISSIONS.READ],
+            ['patch', '/statements/{rid}', PERMISSIONS.UPDATE],
+            ['delete', '/statements/{rid}', PERMISSIONS.DELETE],
+        ]);
+    });
+
+    test('read only classes have no write routes', () => {
+        const ontologyRoutes = routes.filter((r) => r.model === 'Ontology');
+        expect(ontologyRoutes.map((r) => r.operation)).toEqual(['QUERY', 'GET']);
+    });
+
+    test('embedded classes have no routes', () => {
+        expect(routes.filter((r) => r.model === 'Position')).toEqual([]);
+        expect(routes.filter((r) => r.model === 'StatementReview')).toEqual([]);
+    });
+
+    test('edges include the reverse name', () => {
+        const aliasRoutes = routes.filter((r) => r.model === 'AliasOf');
+        expect(aliasRoutes.map((r) => r.operation)).toEqual(['QUERY', 'POST', 'GET', 'DELETE']);
+        aliasRoutes.forEach((route) => {
+            expect(route).toHaveProperty('reverseName', 'HasAlias');
+        });
+    });
+
+    test('paths match getFromRoute', () => {
+        for (const route of routes) {
+            expect(schema.getFromRoute(route.path.replace('/{rid}', ''))).toHaveProperty('name', route.model);
+        }
+    });
+});
+
+describe('toOpenApiPaths', () => {
+    const paths = schema.toOpenApiPaths();
+
+    test('groups methods by path', () => {
+        expect(Object.keys(paths['/statements']).sort()).toEqual(['get', 'post']);
+        expect(Object.keys(paths['/statements/{rid}']).sort()).toEqual(['delete', 'get', 'parameters', 'patch']);
+    });
+
+    test('references the class schema', () => {
+        expect(paths['/statements'].post).toHaveProperty(
+            'requestBody.content.application/json.schema',
+            { $ref: '#/components/schemas/Statement' },
+        );
+    });
+
+    test('partial update does not require any properties', () => {
+        const body = ['requestBody', 'content', 'application/json', 'schema'];
+        expect(paths['/statements/{rid}'].patch).not.toHaveProperty([...body, 'required']);
+        expect(paths['/statements/{rid}'].patch).toHaveProperty([...body, 'properties', 'relevance']);
+        // inherited properties are included
+        expect(paths['/statements/{rid}'].patch).toHaveProperty([...body, 'properties', 'uuid']);
+    });
+
+    test('adds the reverse edge name', () => {
+        expect(paths['/aliasof'].get).toHaveProperty('x-reverse-name', 'HasAlias');
+    });
+
+    test('adds the required permission', () => {
+        expect(paths['/statements/{rid}'].patch).toHaveProperty('x-permission', 'UPDATE');
+    });
+
+    test('record id parameter accepts the same record ids as the RecordId schema', () => {
+        const { pattern } = schema.toOpenApiSchemas().RecordId;
+        expect(pattern).toEqual(RID_PATTERN);
+        expect(paths['/statements/{rid}']).toHaveProperty(['parameters', 0, 'schema', 'pattern'], pattern);
+    });
+});
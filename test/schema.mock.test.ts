@@ -1,5 +1,6 @@
 import { createClassDefinition } from "../src/class";
 import { SchemaDefinition } from '../src/schema';
+import { ValidationError } from '../src/error';
 
 
 describe('queryableProperties', () => {
@@ -207,3 +208,87 @@ describe('formatRecord', () => {
         expect(record).toHaveProperty('opt2', null);
     });
 });
+
+describe('generation failures', () => {
+    const original = new ValidationError({
+        message: 'unable to generate the name', code: 'CHECK_FAILED', field: 'source',
+    });
+    const schema = new SchemaDefinition({
+        example: createClassDefinition({
+            name: 'example',
+            properties: [
+                { name: 'source' },
+                {
+                    name: 'name',
+                    generateDefault: () => {
+                        throw original;
+                    },
+                    generationDependencies: true,
+                },
+            ],
+        }),
+    });
+
+    test('keeps the original error as the cause', () => {
+        expect(() => schema.formatRecord('example', { source: 'blargh' }, { addDefaults: true })).toThrow(
+            expect.objectContaining({
+                code: 'GENERATION_FAILED', message: 'unable to generate the name', cause: original,
+            }),
+        );
+    });
+});
+
+describe('class validation hooks', () => {
+    const validate = (record: Record<string, unknown>) => {
+        if (record.start !== undefined && record.end !== undefined && Number(record.start) > Number(record.end)) {
+            throw new ValidationError({
+                message: 'start must not be after end', code: 'CHECK_FAILED', field: 'end', value: record.end,
+            });
+        }
+    };
+    const schema = new SchemaDefinition({
+        range: createClassDefinition({
+            name: 'range',
+            properties: [{ name: 'start', type: 'integer' }, { name: 'end', type: 'integer' }],
+            validate,
+        }),
+        child: createClassDefinition({ name: 'child', inherits: ['range'] }),
+    });
+
+    test('valid record', () => {
+        expect(schema.formatRecord('range', { start: 1, end: 2 })).toEqual({ start: 1, end: 2 });
+    });
+
+    test.each(['range', 'child'])('error on invalid %s record', (modelName) => {
+        expect(() => schema.formatRecord(modelName, { start: 3, end: 2 })).toThrow(
+            expect.objectContaining({ code: 'CHECK_FAILED', field: 'end', model: modelName }),
+        );
+    });
+
+    test('other errors are not wrapped', () => {
+        const error = new TypeError('bad hook');
+        const broken = new SchemaDefinition({
+            range: createClassDefinition({
+                name: 'range',
+                properties: [{ name: 'start', type: 'integer' }],
+                validate: () => {
+                    throw error;
+                },
+            }),
+        });
+        expect(() => broken.formatRecord('range', { start: 1 })).toThrow(error);
+        expect(() => broken.formatRecordUpdate('range', { start: 1 }, { start: 2 })).toThrow(error);
+    });
+
+    test('error on invalid update', () => {
+        expect(() => schema.formatRecordUpdate('range', { start: 1, end: 2 }, { start: 3 })).toThrow('start must not be after end');
+    });
+
+    test('failure path is the invalid field', () => {
+        expect(() => schema.formatRecord('range', { start: 3, end: 2 }, { collectErrors: true })).toThrow(
+            expect.objectContaining({
+                errors: [expect.objectContaining({ path: 'end', code: 'CHECK_FAILED', model: 'range' })],
+            }),
+        );
+    });
+});
@@ -1,4 +1,4 @@
-import { schema } from '../src';
+import { schema, AggregateValidationError } from '../src';
 import examples from './testData/statementExamples.json';
 
 
@@ -182,6 +182,191 @@ describe('formatRecord', () => {
     ])('%s throws error on casting property \'%\'', (modelName, property, record) => {
         expect(() => schema.formatRecord(modelName, record)).toThrow(property);
     });
+
+    describe('collectErrors', () => {
+        const collectErrors = (modelName, record, opt = {}) => {
+            try {
+                schema.formatRecord(modelName, record, { ...opt, collectErrors: true });
+            } catch (err) {
+                expect(err).toBeInstanceOf(AggregateValidationError);
+                expect(err).toHaveProperty('code', 'MULTIPLE_ERRORS');
+                return (err as AggregateValidationError).errors;
+            }
+            throw new Error('expected an error to be thrown');
+        };
+
+        test('returns the formatted record when valid', () => {
+            const formatted = schema.formatRecord('PositionalVariant', {
+                break1Start: { '@class': 'ProteinPosition', pos: 1, refAA: 'A' },
+                reference1: '#33:1',
+                type: '#33:2',
+                ...userArgs,
+            }, { collectErrors: true });
+            expect(formatted).toHaveProperty('break1Repr', 'p.A1');
+        });
+
+        test('reports nested embedded record errors', () => {
+            const errors = collectErrors('PositionalVariant', {
+                break1Start: { '@class': 'ProteinPosition', pos: 0, refAA: 'AA' },
+                type: '#33:2',
+                ...userArgs,
+            });
+            expect(errors.map((e) => [e.path, e.code])).toEqual([
+                ['reference1', 'MISSING_REQUIRED'],
+                ['break1Start.pos', 'BELOW_MINIMUM'],
+                ['break1Start.refAA', 'PATTERN_MISMATCH'],
+            ]);
+            expect(errors[1]).toHaveProperty('value', 0);
+            expect(errors[1]).toHaveProperty('constraint', 'minimum');
+            expect(errors[1]).toHaveProperty('constraintValue', 1);
+            expect(errors[1]).toHaveProperty('model', 'ProteinPosition');
+        });
+
+        test('reports errors in embedded lists by index', () => {
+            const errors = collectErrors('Statement', {
+                conditions: [],
+                evidence: ['#3:1'],
+                relevance: 'blargh',
+                subject: '#3:3',
+                reviews: [
+                    { status: 'passed', createdBy: '#3:1', createdAt: 1 },
+                    { status: 'passed', createdBy: '#3:1', createdAt: 1 },
+                    { status: 'bad', createdBy: '#3:1', createdAt: 1 },
+                ],
+                ...userArgs,
+            });
+            expect(errors.map((e) => [e.path, e.code])).toEqual([
+                ['relevance', 'CAST_FAILED'],
+                ['conditions', 'TOO_FEW_ITEMS'],
+                ['reviews[2].status', 'INVALID_CHOICE'],
+            ]);
+            expect(errors[2]).toHaveProperty('value', 'bad');
+        });
+
+        test('reports unexpected attributes', () => {
+            const errors = collectErrors(
+                'SubClassOf',
+                { blargh: 2, monkeys: 3 },
+                { dropExtra: false },
+            );
+            expect(errors.map((e) => [e.path, e.code])).toEqual([
+                ['blargh', 'UNEXPECTED_ATTRIBUTE'],
+                ['monkeys', 'UNEXPECTED_ATTRIBUTE'],
+                ['out', 'MISSING_REQUIRED'],
+                ['in', 'MISSING_REQUIRED'],
+                ['createdBy', 'MISSING_REQUIRED'],
+            ]);
+        });
+
+        test('reports incompatible embedded class', () => {
+            const errors = collectErrors('PositionalVariant', {
+                break1Start: { '@class': 'StatementReview' },
+                reference1: '#33:1',
+                type: '#33:2',
+                ...userArgs,
+            });
+            expect(errors).toEqual([{
+                path: 'break1Start',
+                code: 'INVALID_LINKED_CLASS',
+                model: 'PositionalVariant',
+                constraint: 'linkedClass',
+                constraintValue: 'Position',
+                value: 'StatementReview',
+                message: expect.stringContaining('A linked class was defined (Position)'),
+            }]);
+        });
+
+        test('single error mode has the structured fields', () => {
+            expect(() => schema.formatRecord('Feature', { biotype: 'blargh' }, { ignoreMissing: true })).toThrow(
+                expect.objectContaining({
+                    code: 'INVALID_CHOICE', field: 'biotype', model: 'Feature', value: 'blargh',
+                }),
+            );
+        });
+
+        test('serializes without the stack trace', () => {
+            const json = JSON.parse(JSON.stringify(new AggregateValidationError({
+                message: 'blargh', code: 'MULTIPLE_ERRORS', errors: collectErrors('PositionalVariant', { ...userArgs }),
+            })));
+            expect(json).not.toHaveProperty('stacktrace');
+            expect(json).toHaveProperty('code', 'MULTIPLE_ERRORS');
+            expect(json).toHaveProperty(['errors', 0, 'code'], 'MISSING_REQUIRED');
+        });
+
+        test('message lists all errors', () => {
+            expect(() => schema.formatRecord('PositionalVariant', {
+                break1Start: { '@class': 'ProteinPosition', pos: 0 },
+                ...userArgs,
+            }, { collectErrors: true })).toThrow('3 validation error(s)');
+        });
+    });
+});
+
+describe('formatRecordUpdate', () => {
+    const userArgs = { updatedBy: '#4:3', createdBy: '#4:3' };
+    const variant = schema.formatRecord('PositionalVariant', {
+        break1Start: { '@class': 'ProteinPosition', pos: 12, refAA: 'G' },
+        reference1: '#33:1',
+        type: '#33:2',
+        untemplatedSeq: 'D',
+        ...userArgs,
+    });
+
+    test('merges the patch and lists changes', () => {
+        const { record, changes } = schema.formatRecordUpdate('PositionalVariant', variant, { untemplatedSeq: 'v', germline: true });
+        expect(record).toHaveProperty('untemplatedSeq', 'V');
+        expect(record).toHaveProperty('germline', true);
+        expect(record).toHaveProperty('uuid', variant.uuid);
+        expect(changes.sort()).toEqual(['germline', 'untemplatedSeq']);
+    });
+
+    test('re-generates the break representation', () => {
+        const { record, changes } = schema.formatRecordUpdate('PositionalVariant', variant, {
+            break1Start: { '@class': 'ProteinPosition', pos: 13, refAA: 'G' },
+        });
+        expect(record).toHaveProperty('break1Repr', 'p.G13');
+        expect(changes.sort()).toEqual(['break1Repr', 'break1Start']);
+    });
+
+    test('re-generates the displayName when it was generated', () => {
+        const feature = schema.formatRecord('Feature', {
+            sourceId: 'kras', name: 'kras', source: '#3:1', biotype: 'gene', ...userArgs,
+        });
+        const { record } = schema.formatRecordUpdate('Feature', feature, { sourceId: 'ensg001' });
+        expect(record).toHaveProperty('displayName', 'ENSG001');
+    });
+
+    test('keeps a user-supplied displayName', () => {
+        const feature = schema.formatRecord('Feature', {
+            sourceId: 'hgnc:6407', name: 'kras', source: '#3:1', biotype: 'gene', displayName: 'custom', ...userArgs,
+        });
+        const { record, changes } = schema.formatRecordUpdate('Feature', feature, { sourceId: 'ensg001' });
+        expect(record).toHaveProperty('displayName', 'custom');
+        expect(changes).toEqual(['sourceId']);
+    });
+
+    test.each([
+        ['uuid', '933fd4de-5bd6-471c-9869-a7601294ea6e', 'readOnly'],
+        ['createdAt', 1, 'generated'],
+        ['break1Repr', 'p.G14', 'generated'],
+    ])('error on changing %s', (attr, value, flag) => {
+        expect(() => schema.formatRecordUpdate('PositionalVariant', variant, { [attr]: value })).toThrow(
+            expect.objectContaining({ code: 'READ_ONLY', field: attr, message: expect.stringContaining(`cannot update the ${flag} attribute`) }),
+        );
+    });
+
+    test('allows unchanged readOnly values', () => {
+        const { changes } = schema.formatRecordUpdate('PositionalVariant', variant, { uuid: variant.uuid, germline: false });
+        expect(changes).toEqual(['germline']);
+    });
+
+    test('error on invalid patch value', () => {
+        expect(() => schema.formatRecordUpdate('PositionalVariant', variant, { zygosity: 'blargh' })).toThrow('Violated the choices constraint');
+    });
+
+    test('error on unexpected attribute', () => {
+        expect(() => schema.formatRecordUpdate('PositionalVariant', variant, { blargh: 'monkeys' })).toThrow('unexpected attribute');
+    });
 });
 
 describe('has', () => {
@@ -200,6 +385,10 @@ describe('get', () => {
         expect(() => schema.get(modelName, true)).toThrow(`Unable to retrieve model: ${modelName.toLowerCase()}`);
         expect(schema.get(modelName, false)).toBe(null);
     });
+
+    test('error has the UNKNOWN_MODEL code', () => {
+        expect(() => schema.get('blargh')).toThrow(expect.objectContaining({ code: 'UNKNOWN_MODEL', value: 'blargh' }));
+    });
 });
 
 
@@ -0,0 +1,103 @@
+import { schema } from '../src';
+import { generateStatementSentence, TEMPLATE_KEYS } from '../src/sentenceTemplates';
+import {
+    getCatalogue, registerCatalogue, removeCatalogue, SENTENCE_CATALOGUES,
+} from '../src/sentenceCatalogues';
+import { SentenceCatalogue } from '../src/types';
+
+import examples from './testData/statementExamples.json';
+
+describe('getCatalogue', () => {
+    test('default locale', () => {
+        expect(getCatalogue()).toBe(SENTENCE_CATALOGUES.en);
+    });
+
+    test('regional locale falls back to the language', () => {
+        expect(getCatalogue('es_MX')).toBe(SENTENCE_CATALOGUES.es);
+    });
+
+    test('error on unknown locale', () => {
+        expect(() => getCatalogue('de')).toThrow('Expected one of en, es, fr');
+    });
+});
+
+describe('SENTENCE_CATALOGUES', () => {
+    const args = { keys: TEMPLATE_KEYS, relevance: 'in-frame fusion', multiVariant: '' };
+
+    test.each(Object.keys(SENTENCE_CATALOGUES))('templates use the same keys as english (%s)', (locale) => {
+        const { templates } = SENTENCE_CATALOGUES[locale];
+        const keysUsed = (text: string) => (text.match(/{[^}]+}/g) || []).sort();
+
+        for (const [name, template] of Object.entries(SENTENCE_CATALOGUES.en.templates)) {
+            expect(keysUsed(templates[name](args))).toEqual(keysUsed(template(args)));
+        }
+    });
+
+    test('article for fusions', () => {
+        expect(SENTENCE_CATALOGUES.en.templates.feature(args)).toEqual('{subject} is an {relevance}');
+        expect(SENTENCE_CATALOGUES.fr.templates.feature(args)).toEqual('{subject} est une {relevance}');
+    });
+});
+
+describe('registerCatalogue', () => {
+    const de: SentenceCatalogue = {
+        ...SENTENCE_CATALOGUES.en,
+        and: 'und',
+        coOccurrence: 'Das gemeinsame Auftreten von ',
+        templates: {
+            ...SENTENCE_CATALOGUES.en.templates,
+            therapeutic: ({ keys, multiVariant }) => `${multiVariant}${keys.variant} ist mit ${keys.relevance} gegenüber ${keys.subject} assoziiert`,
+        },
+    };
+
+    afterEach(() => {
+        removeCatalogue('de');
+    });
+
+    test('sentence in the registered locale', () => {
+        registerCatalogue('de', de);
+        expect(getCatalogue('de-AT')).toBe(de);
+        const { content } = generateStatementSentence(
+            (obj) => schema.getPreview(obj),
+            examples['subject:Therapy|conditions:PositionalVariant;Therapy|relevance:sensitivity'],
+            undefined,
+            'de',
+        );
+        expect(content.replace(' ({evidence})', '')).toEqual('NM_005228:p.L858R ist mit sensitivity gegenüber anti egfr tki assoziiert');
+    });
+
+    test('separate catalogues', () => {
+        const catalogues = { ...SENTENCE_CATALOGUES };
+        registerCatalogue('de', de, catalogues);
+        expect(catalogues.de).toBe(de);
+        expect(() => getCatalogue('de')).toThrow('No sentence catalogue for the locale (de)');
+    });
+
+    test('error on existing locale', () => {
+        expect(() => registerCatalogue('fr', de)).toThrow('A sentence catalogue for the locale (fr) already exists');
+    });
+
+    test('error on missing phrases and templates', () => {
+        const { therapeutic, ...templates } = de.templates;
+        expect(() => registerCatalogue('de', { ...de, and: undefined, templates } as unknown as SentenceCatalogue)).toThrow(
+            'Missing and, templates.therapeutic',
+        );
+        expect(() => getCatalogue('de')).toThrow();
+    });
+});
+
+describe('removeCatalogue', () => {
+    test('unknown locale', () => {
+        expect(removeCatalogue('de')).toBeNull();
+    });
+
+    test('catalogue is removed', () => {
+        const catalogues = { ...SENTENCE_CATALOGUES };
+        expect(removeCatalogue('fr', catalogues)).toBe(SENTENCE_CATALOGUES.fr);
+        expect(Object.keys(catalogues)).toEqual(['en', 'es']);
+    });
+
+    test('error on the default locale', () => {
+        expect(() => removeCatalogue('en')).toThrow('may not be removed');
+    });
+});
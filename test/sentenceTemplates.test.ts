@@ -1,9 +1,16 @@
 import { schema } from '../src';
 import {
     addEvidence,
+    checkTemplate,
+    chooseDefaultTemplate,
     DEFAULT_TEMPLATE,
     generateStatementSentence,
+    generateStatementTokens,
+    parseTemplate,
     PRECLINICAL_WARNING,
+    renderTokensAsHtml,
+    renderTokensAsMarkdown,
+    renderTokensAsText,
 } from '../src/sentenceTemplates';
 
 import examples from './testData/statementExamples.json';
@@ -360,4 +367,288 @@ describe('addEvidence', () => {
         const expected = '... ({evidence})'
         expect(updatedTemplate).toEqual(expected);
     });
-});
\ No newline at end of file
+});
+
+describe('generateStatementTokens', () => {
+    test.each(Object.keys(examples))('same text as the sentence (%s)', (key) => {
+        const { content, highlighted } = generateStatementSentence(previewFunction, examples[key]);
+        const tokens = generateStatementTokens(previewFunction, examples[key]);
+        expect(renderTokensAsText(tokens)).toEqual(content);
+        expect(tokens.filter((t) => t.type === 'slot').map((t) => t.text).sort()).toEqual(highlighted.sort());
+    });
+
+    test('slots carry the source record', () => {
+        const statement = {
+            displayNameTemplate: '{conditions:variant} is {relevance} in {subject}',
+            relevance: { displayName: 'recurrent', '@rid': '#1:1', '@class': 'Vocabulary' },
+            conditions: [
+                { displayName: 'KRAS mutation', '@class': 'CategoryVariant', '@rid': '#2:1' },
+                { displayName: 'cancer', '@class': 'Disease', '@rid': '#3:1' },
+            ],
+            subject: { displayName: 'cancer', '@class': 'Disease', '@rid': '#3:1' },
+        };
+        expect(generateStatementTokens(previewFunction, statement)).toEqual([
+            {
+                type: 'slot', key: 'variant', text: 'KRAS mutation', '@rid': '#2:1', '@class': 'CategoryVariant',
+            },
+            { type: 'text', text: ' is ' },
+            {
+                type: 'slot', key: 'relevance', text: 'recurrent', '@rid': '#1:1', '@class': 'Vocabulary',
+            },
+            { type: 'text', text: ' in ' },
+            {
+                type: 'slot', key: 'subject', text: 'cancer', '@rid': '#3:1', '@class': 'Disease',
+            },
+        ]);
+    });
+
+    test('list of records', () => {
+        const tokens = generateStatementTokens(previewFunction, examples.evidence);
+        const evidence = tokens.filter((t) => t.type === 'slot' && t.key === 'evidence');
+        expect(evidence.map((t) => t.text)).toEqual(['pmid:12345678', 'pmid:12345679']);
+        expect(renderTokensAsText(tokens)).toContain('(pmid:12345678 and pmid:12345679)');
+    });
+
+    test('preclinical warning does not have a record', () => {
+        const tokens = generateStatementTokens(previewFunction, examples.preclinicalWarning);
+        expect(tokens).toContainEqual({
+            type: 'slot', key: 'preclinicalWarning', text: PRECLINICAL_WARNING, '@rid': null, '@class': null,
+        });
+    });
+});
+
+describe('renderTokens', () => {
+    const tokens = [
+        {
+            type: 'slot' as const, key: 'variant', text: 'A<B>_*', '@rid': '#2:1', '@class': 'CategoryVariant',
+        },
+        { type: 'text' as const, text: ' is ' },
+        {
+            type: 'slot' as const, key: 'preclinicalWarning', text: 'preclinical', '@rid': null, '@class': null,
+        },
+    ];
+    const link = (token) => (token['@rid']
+        ? `/view/${token['@class']}/${token['@rid'].slice(1)}`
+        : null);
+
+    test('text', () => {
+        expect(renderTokensAsText(tokens)).toEqual('A<B>_* is preclinical');
+    });
+
+    test('html with links', () => {
+        expect(renderTokensAsHtml(tokens, link)).toEqual(
+            '<a href="/view/CategoryVariant/2:1" data-key="variant">A&lt;B&gt;_*</a> is <strong data-key="preclinicalWarning">preclinical</strong>',
+        );
+    });
+
+    test('html without links', () => {
+        expect(renderTokensAsHtml(tokens)).toEqual(
+            '<strong data-key="variant">A&lt;B&gt;_*</strong> is <strong data-key="preclinicalWarning">preclinical</strong>',
+        );
+    });
+
+    test('markdown with links', () => {
+        expect(renderTokensAsMarkdown(tokens, link)).toEqual('[A<B>\\_\\*](/view/CategoryVariant/2:1) is **preclinical**');
+    });
+});
+
+describe('parseTemplate', () => {
+    test('keys and text', () => {
+        expect(parseTemplate('{conditions:variant} is {relevance}.')).toEqual([
+            {
+                type: 'key', text: '{conditions:variant}', key: 'variant', start: 0,
+            },
+            { type: 'text', text: ' is ', start: 20 },
+            {
+                type: 'key', text: '{relevance}', key: 'relevance', start: 24,
+            },
+            { type: 'text', text: '.', start: 35 },
+        ]);
+    });
+
+    test('unknown key', () => {
+        expect(parseTemplate('{condition:variant}')).toEqual([{
+            type: 'key', text: '{condition:variant}', key: null, start: 0,
+        }]);
+    });
+
+    test.each([
+        ['{subject', 'Opening brace without a closing brace (position 0)'],
+        ['subject}', 'Closing brace without an opening brace (position 7)'],
+        ['{subject {relevance}}', 'Placeholders cannot be nested (position 9)'],
+    ])('error on unbalanced braces (%s)', (template, message) => {
+        expect(() => parseTemplate(template)).toThrow(message);
+    });
+});
+
+describe('checkTemplate', () => {
+    test.each(Object.keys(examples))('default template is valid (%s)', (key) => {
+        expect(checkTemplate(chooseDefaultTemplate(examples[key]), examples[key])).toEqual([]);
+    });
+
+    test('default template is valid', () => {
+        expect(checkTemplate(DEFAULT_TEMPLATE, { subject: '#1:1' })).toEqual([]);
+    });
+
+    test('unknown key', () => {
+        expect(checkTemplate('{condition:variant} is {relevance}')).toEqual([
+            expect.stringContaining('Unknown template key {condition:variant}'),
+        ]);
+    });
+
+    test('duplicate key', () => {
+        expect(checkTemplate('{relevance} of {subject} is {relevance}')).toEqual(['Duplicate template key {relevance}']);
+    });
+
+    test('unbalanced braces', () => {
+        expect(checkTemplate('{relevance of {subject}')).toEqual([expect.stringContaining('Unbalanced braces')]);
+    });
+
+    test('missing subject', () => {
+        expect(checkTemplate('{relevance}', { subject: '#1:1' })).toEqual([
+            'The template must include {subject} when the statement has a subject',
+        ]);
+    });
+
+    test('subject shown with the conditions', () => {
+        expect(checkTemplate('{conditions} is {relevance}', { subject: '#1:1', conditions: ['#1:1', '#1:2'] })).toEqual([]);
+    });
+
+    test('error on conditions key when the subject is not a condition', () => {
+        expect(checkTemplate('{conditions} is {relevance}', { subject: '#1:1', conditions: ['#1:2'] })).toEqual([
+            'The template must include {subject} when the statement has a subject',
+        ]);
+    });
+
+    test('subject shown with the conditions key for its class', () => {
+        const subject = { '@class': 'PositionalVariant', '@rid': '#1:1', displayName: 'KRAS:p.G12D' };
+        expect(checkTemplate('{conditions:variant} is {relevance}', { subject, conditions: [subject] })).toEqual([]);
+    });
+
+    test('error on conditions key for a different class than the subject', () => {
+        const subject = { '@class': 'Therapy', '@rid': '#1:1', displayName: 'drug' };
+        const disease = { '@class': 'Disease', '@rid': '#1:2', displayName: 'cancer' };
+        expect(checkTemplate('{relevance} in {conditions:disease}', { subject, conditions: [subject, disease] })).toEqual([
+            'The template must include {subject} when the statement has a subject',
+        ]);
+    });
+
+    test('patient subject is implied', () => {
+        const subject = { '@class': 'Vocabulary', '@rid': '#1:1', displayName: 'patient' };
+        expect(checkTemplate('{conditions:variant} predicts {relevance}', { subject, conditions: [subject] })).toEqual([]);
+    });
+
+    test('no subject', () => {
+        expect(checkTemplate('{relevance}', { subject: null })).toEqual([]);
+    });
+});
+
+describe('Statement.displayNameTemplate', () => {
+    const statement = {
+        conditions: ['#3:1'],
+        evidence: ['#3:2'],
+        relevance: '#3:3',
+        subject: '#3:1',
+        updatedBy: '#4:3',
+        createdBy: '#4:3',
+    };
+
+    test('valid template', () => {
+        const template = '{conditions:variant} is {relevance} to {subject}';
+        expect(schema.formatRecord('Statement', { ...statement, displayNameTemplate: template })).toHaveProperty('displayNameTemplate', template);
+    });
+
+    test('error on unknown key', () => {
+        expect(() => schema.formatRecord('Statement', {
+            ...statement, displayNameTemplate: '{condition:variant} is {relevance}',
+        })).toThrow('Violated check constraint of displayNameTemplate (validTemplate)');
+    });
+
+    test('error on template without the subject', () => {
+        expect(() => schema.formatRecord('Statement', {
+            ...statement, displayNameTemplate: '{relevance} ({evidence})',
+        })).toThrow('when the statement has a subject');
+    });
+
+    test('template without the subject is allowed when the subject is not given', () => {
+        expect(schema.formatRecord('Statement', {
+            ...statement, subject: null, displayNameTemplate: '{relevance} ({evidence})',
+        })).toHaveProperty('displayNameTemplate', '{relevance} ({evidence})');
+    });
+
+    test('error on update with an invalid template', () => {
+        const existing = schema.formatRecord('Statement', statement);
+        expect(() => schema.formatRecordUpdate('Statement', existing, { displayNameTemplate: '{subject} {subject}' })).toThrow(
+            expect.objectContaining({ field: 'displayNameTemplate', constraint: 'validTemplate' }),
+        );
+    });
+
+    test('template given on update is checked against the existing subject', () => {
+        const existing = schema.formatRecord('Statement', statement);
+        expect(() => schema.formatRecordUpdate('Statement', existing, { displayNameTemplate: '{relevance} ({evidence})' })).toThrow(
+            expect.objectContaining({ field: 'displayNameTemplate', constraint: 'showsSubject' }),
+        );
+        // the subject is one of the existing conditions
+        expect(schema.formatRecordUpdate('Statement', existing, { displayNameTemplate: '{conditions} is {relevance}' }).changes).toEqual(
+            ['displayNameTemplate'],
+        );
+    });
+
+    test('update of other properties is not checked against the template', () => {
+        const existing = { ...schema.formatRecord('Statement', statement), displayNameTemplate: '{relevance}' };
+        expect(schema.formatRecordUpdate('Statement', existing, { description: 'updated' }).changes).toEqual(['description']);
+    });
+});
+
+describe('localized sentences', () => {
+    const therapeutic = examples['subject:Therapy|conditions:Disease;PositionalVariant;PositionalVariant;Therapy|relevance:resistance'];
+
+    test.each(Object.keys(examples))('english is the default (%s)', (key) => {
+        expect(generateStatementSentence(previewFunction, examples[key], undefined, 'en')).toEqual(
+            generateStatementSentence(previewFunction, examples[key]),
+        );
+    });
+
+    test.each([
+        ['fr', 'La co-occurrence de NM_005228:p.T790M et NM_005228:p.L858R est associé à resistance à gefitinib [DB00317] dans lung cancer [DOID:1324]'],
+        ['es', 'La co-ocurrencia de NM_005228:p.T790M y NM_005228:p.L858R está asociado con resistance a gefitinib [DB00317] en lung cancer [DOID:1324]'],
+        ['fr-CA', 'La co-occurrence de NM_005228:p.T790M et NM_005228:p.L858R est associé à resistance à gefitinib [DB00317] dans lung cancer [DOID:1324]'],
+    ])('therapeutic statement (%s)', (locale, result) => {
+        const { content } = generateStatementSentence(previewFunction, therapeutic, undefined, locale);
+        expect(content.replace(' ({evidence})', '')).toEqual(result);
+    });
+
+    test('eligibility statement', () => {
+        const key = 'subject:ClinicalTrial|conditions:CategoryVariant;ClinicalTrial;Disease|relevance:eligibility';
+        const { content } = generateStatementSentence(previewFunction, examples[key], undefined, 'es');
+        expect(content.replace(' ({evidence})', '')).toEqual(
+            'Los pacientes con CD274 increased rna expression en osteosarcoma [DOID:3347] son elegibles para NCT02879162',
+        );
+    });
+
+    test('stored default template is localized', () => {
+        const record = { ...therapeutic, displayNameTemplate: chooseDefaultTemplate(therapeutic) };
+        expect(generateStatementSentence(previewFunction, record, undefined, 'fr')).toEqual(
+            generateStatementSentence(previewFunction, therapeutic, undefined, 'fr'),
+        );
+    });
+
+    test('custom template is not localized', () => {
+        const record = { ...therapeutic, displayNameTemplate: '{relevance} to {subject}' };
+        expect(generateStatementSentence(previewFunction, record, undefined, 'fr').content).toEqual('resistance to gefitinib [DB00317]');
+    });
+
+    test('preclinical warning and list conjunction in tokens', () => {
+        const record = {
+            ...therapeutic,
+            displayNameTemplate: '{conditions:variant} {preclinicalWarning}',
+        };
+        expect(renderTokensAsText(generateStatementTokens(previewFunction, record, undefined, 'es'))).toEqual(
+            'NM_005228:p.T790M y NM_005228:p.L858R modelos preclínicos',
+        );
+    });
+
+    test('error on unknown locale', () => {
+        expect(() => generateStatementSentence(previewFunction, therapeutic, undefined, 'de')).toThrow('No sentence catalogue for the locale (de)');
+    });
+});
@@ -0,0 +1,132 @@
+import { schema } from '../src';
+import { checkStatementRules, STATEMENT_RULES, validateStatementRules } from '../src/statementRules';
+
+import examples from './testData/statementExamples.json';
+
+const vocab = (name: string) => ({ '@class': 'Vocabulary', '@rid': '#1:1', name });
+const disease = { '@class': 'Disease', '@rid': '#2:1', displayName: 'cancer' };
+const therapy = { '@class': 'Therapy', '@rid': '#2:2', displayName: 'drug' };
+const variant = { '@class': 'PositionalVariant', '@rid': '#3:1', displayName: 'KRAS:p.G12D' };
+const feature = { '@class': 'Feature', '@rid': '#4:1', displayName: 'KRAS' };
+
+describe('checkStatementRules', () => {
+    test('example statements', () => {
+        const failures = Object.entries(examples)
+            .filter(([, statement]) => checkStatementRules(schema, statement as Record<string, unknown>).length)
+            .map(([key]) => key);
+        expect(failures).toEqual([]);
+    });
+
+    test('functional statement with a disease subject', () => {
+        expect(checkStatementRules(schema, {
+            relevance: vocab('likely gain of function'), subject: disease, conditions: [variant, disease],
+        })).toEqual([]);
+    });
+
+    test('functional statement with a therapy subject', () => {
+        const failures = checkStatementRules(schema, {
+            relevance: vocab('loss of function'), subject: therapy, conditions: [variant, therapy],
+        });
+        expect(failures.map((f) => [f.path, f.constraint])).toEqual([['subject', 'functional subject']]);
+    });
+
+    test('sensitivity statement with a disease subject', () => {
+        const failures = checkStatementRules(schema, {
+            relevance: vocab('sensitivity'), subject: disease, conditions: [variant, disease],
+        });
+        expect(failures).toEqual([{
+            path: 'subject',
+            code: 'CHECK_FAILED',
+            model: 'Statement',
+            constraint: 'therapeutic subject',
+            value: 'Disease',
+            message: '[therapeutic subject] the subject of a therapeutic statement must be a therapy (relevance: sensitivity)',
+        }]);
+    });
+
+    test('diagnostic statement with a therapy subject', () => {
+        const failures = checkStatementRules(schema, {
+            relevance: vocab('diagnostic indicator'), subject: therapy, conditions: [variant, therapy],
+        });
+        expect(failures.map((f) => [f.path, f.constraint])).toEqual([['subject', 'diagnostic subject']]);
+    });
+
+    test('diagnostic statement without a variant', () => {
+        const failures = checkStatementRules(schema, {
+            relevance: vocab('favours diagnosis'), subject: disease, conditions: [disease],
+        });
+        expect(failures.map((f) => [f.path, f.constraint, f.value])).toEqual([['conditions', 'diagnostic conditions', ['Disease']]]);
+    });
+
+    test('prognostic statement without a subject', () => {
+        expect(checkStatementRules(schema, {
+            relevance: vocab('favourable prognosis'), subject: null, conditions: [variant, disease],
+        })).toEqual([]);
+    });
+
+    test('eligibility statement with a disease subject', () => {
+        const failures = checkStatementRules(schema, {
+            relevance: vocab('eligibility'), subject: disease, conditions: [variant, disease],
+        });
+        expect(failures.map((f) => f.constraint)).toEqual(['eligibility subject']);
+    });
+
+    test('recurrent statement without a disease', () => {
+        const failures = checkStatementRules(schema, {
+            relevance: vocab('recurrent'), subject: feature, conditions: [variant, feature],
+        });
+        expect(failures.map((f) => f.constraint)).toEqual(['recurrent disease']);
+    });
+
+    test('relevance without rules', () => {
+        expect(checkStatementRules(schema, {
+            relevance: vocab('oncogenic'), subject: disease, conditions: [disease],
+        })).toEqual([]);
+    });
+
+    test('custom rules', () => {
+        const rules = [
+            ...STATEMENT_RULES,
+            {
+                name: 'oncogenic subject',
+                category: 'functional' as const,
+                relevance: /oncogenic/,
+                subjectClasses: ['Feature', 'Variant'],
+                message: 'only features and variants can be oncogenic',
+            },
+        ];
+        const failures = schema.checkStatementRules({
+            relevance: vocab('likely oncogenic'), subject: disease, conditions: [disease],
+        }, rules);
+        expect(failures.map((f) => f.message)).toEqual(['[oncogenic subject] only features and variants can be oncogenic (relevance: likely oncogenic)']);
+    });
+
+    test('error on unexpanded subject', () => {
+        expect(() => checkStatementRules(schema, {
+            relevance: vocab('sensitivity'), subject: '#2:1', conditions: [variant],
+        })).toThrow('The subject of the statement must be expanded');
+    });
+
+    test('error on unexpanded relevance', () => {
+        expect(() => checkStatementRules(schema, {
+            relevance: '#1:1', subject: therapy, conditions: [variant],
+        })).toThrow('The relevance of the statement must be expanded');
+    });
+});
+
+describe('validateStatementRules', () => {
+    test('valid statement', () => {
+        expect(() => validateStatementRules(schema, {
+            relevance: vocab('resistance'), subject: therapy, conditions: [variant, therapy],
+        })).not.toThrow();
+    });
+
+    test('invalid statement', () => {
+        expect(() => validateStatementRules(schema, {
+            relevance: vocab('resistance'), subject: feature, conditions: [variant, feature],
+        })).toThrow(expect.objectContaining({
+            code: 'MULTIPLE_ERRORS',
+            errors: [expect.objectContaining({ path: 'subject', constraint: 'therapeutic subject' })],
+        }));
+    });
+});
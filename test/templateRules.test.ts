@@ -0,0 +1,159 @@
+import {
+    matchTemplateRule, registerTemplateRule, relevanceCategory, removeTemplateRule, TEMPLATE_RULES,
+} from '../src/templateRules';
+import { addEvidence, chooseDefaultTemplate, DEFAULT_TEMPLATE } from '../src/sentenceTemplates';
+import { TemplateRule } from '../src/types';
+
+import examples from './testData/statementExamples.json';
+
+const signatureStatement = {
+    conditions: [{ '@class': 'Signature', '@rid': '#1:1', displayName: 'SBS3' }],
+    subject: { '@class': 'Signature', '@rid': '#1:1', displayName: 'SBS3' },
+    relevance: {
+        '@class': 'Vocabulary', '@rid': '#2:1', name: 'homologous recombination deficiency', displayName: 'homologous recombination deficiency',
+    },
+    evidence: [],
+};
+
+const statement = (relevance: string, subject: string, conditions: string[]) => ({
+    conditions: conditions.map((name, index) => ({ '@class': name, '@rid': `#1:${index}`, displayName: name })),
+    subject: {
+        '@class': subject,
+        '@rid': '#3:1',
+        displayName: subject === 'Vocabulary'
+            ? 'patient'
+            : subject,
+    },
+    relevance: {
+        '@class': 'Vocabulary', '@rid': '#2:1', name: relevance, displayName: relevance,
+    },
+    evidence: [],
+});
+
+describe('chooseDefaultTemplate', () => {
+    // the relevance names are matched exactly (case sensitive) and in the same order as the original if/else chain
+    test.each([
+        ['recurrent', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} is {relevance} in {conditions:disease}'],
+        ['Recurrent', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} is {relevance} in {subject}'],
+        ['diagnostic indicator', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} is a {relevance} of {subject}'],
+        ['favours diagnosis', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} {relevance} of {subject}'],
+        ['Favours Diagnosis', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} is {relevance} in {subject}'],
+        ['likely predisposing', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} is {relevance} to {subject}'],
+        ['mutation hotspot', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} is a {relevance} in {subject}'],
+        ['tumourigenesis', 'Disease', ['PositionalVariant', 'Disease'], '{conditions:variant} contributes to {relevance} of {subject}'],
+        ['gain of function', 'Feature', ['PositionalVariant', 'Feature'], '{conditions:variant} results in {relevance} of {subject}'],
+        ['Gain of Function', 'Feature', ['PositionalVariant', 'Feature'], '{subject} is {relevance}'],
+        ['response to function', 'Feature', ['PositionalVariant', 'Feature'], '{conditions:variant} results in {relevance} of {subject}'],
+        ['increased expression', 'Feature', ['PositionalVariant', 'Feature', 'Disease'], '{conditions:variant} results in {relevance} of {subject} in {conditions:disease}'],
+        ['Gain of Function', 'Feature', ['PositionalVariant', 'Feature', 'Disease'], '{subject} is {relevance} in {conditions:disease}'],
+        ['in-frame fusion', 'Feature', ['CategoryVariant', 'Feature'], '{subject} is an {relevance}'],
+        ['response to function', 'Therapy', ['PositionalVariant', 'Therapy'], '{conditions:variant} is associated with {relevance} to {subject}'],
+        ['sensitivity', 'Therapy', ['PositionalVariant', 'Therapy', 'Disease'], '{conditions:variant} is associated with {relevance} to {subject} in {conditions:disease}'],
+        ['unfavourable prognosis', 'Vocabulary', ['PositionalVariant', 'Disease'], '{conditions:variant} predicts {relevance} in {conditions:disease}'],
+        ['prognostic indicator', 'Vocabulary', ['PositionalVariant'], '{conditions:variant} is a {relevance}'],
+        ['Unfavourable Prognosis', 'Vocabulary', ['PositionalVariant', 'Disease'], DEFAULT_TEMPLATE],
+        ['eligibility', 'ClinicalTrial', ['PositionalVariant', 'ClinicalTrial'], 'Patients with {conditions:variant} are eligible for {subject}'],
+        ['Eligibility', 'ClinicalTrial', ['PositionalVariant', 'ClinicalTrial'], DEFAULT_TEMPLATE],
+        ['oncogenic', 'Signature', ['Signature'], '{subject} is {relevance}'],
+    ])('%s (subject: %s, conditions: %j)', (relevance, subject, conditions, template) => {
+        const record = statement(relevance, subject, conditions);
+        expect(chooseDefaultTemplate(record)).toEqual(addEvidence(template, record));
+    });
+});
+
+describe('matchTemplateRule', () => {
+    test.each([
+        ['subject:Therapy|conditions:PositionalVariant;Therapy|relevance:sensitivity', 'therapeutic'],
+        ['subject:Therapy|conditions:Disease;PositionalVariant;PositionalVariant;Therapy|relevance:resistance', 'therapeutic in disease'],
+        ['subject:null|conditions:Disease;PositionalVariant|relevance:unfavourable prognosis', 'prognosis in disease'],
+        ['subject:ClinicalTrial|conditions:ClinicalTrial;PositionalVariant|relevance:eligibility', 'eligibility'],
+        ['subject:Disease|conditions:Disease;PositionalVariant;PositionalVariant|relevance:recurrent', 'recurrent'],
+    ])('%s', (key, name) => {
+        expect(matchTemplateRule(examples[key])?.name).toEqual(name);
+    });
+
+    test('single condition', () => {
+        expect(matchTemplateRule(signatureStatement)?.name).toEqual('single condition');
+    });
+
+    test('default', () => {
+        expect(matchTemplateRule({ ...signatureStatement, conditions: [] })?.name).toEqual('default');
+    });
+
+    test('no matching rule', () => {
+        expect(matchTemplateRule(signatureStatement, [])).toBeNull();
+    });
+});
+
+describe('registerTemplateRule', () => {
+    const rule: TemplateRule = {
+        name: 'signature',
+        matches: ({ subjectType }) => subjectType === 'signature',
+        template: ({ keys }) => `${keys.subject} is associated with ${keys.relevance}`,
+    };
+
+    afterEach(() => {
+        removeTemplateRule(rule.name);
+    });
+
+    test('takes precedence over the default rules', () => {
+        registerTemplateRule(rule);
+        expect(TEMPLATE_RULES[0]).toBe(rule);
+        expect(matchTemplateRule(signatureStatement)).toBe(rule);
+        expect(chooseDefaultTemplate(signatureStatement)).toEqual('{subject} is associated with {relevance} ({evidence})');
+    });
+
+    test('before another rule', () => {
+        registerTemplateRule(rule, { before: 'default' });
+        expect(TEMPLATE_RULES[TEMPLATE_RULES.length - 2]).toBe(rule);
+        expect(matchTemplateRule(signatureStatement)?.name).toEqual('single condition');
+    });
+
+    test('catalogue template', () => {
+        registerTemplateRule({ ...rule, template: 'feature' });
+        expect(chooseDefaultTemplate(signatureStatement, undefined, 'fr')).toEqual('{subject} est {relevance} ({evidence})');
+    });
+
+    test('separate list of rules', () => {
+        const rules = [...TEMPLATE_RULES];
+        registerTemplateRule(rule, { rules });
+        expect(matchTemplateRule(signatureStatement, rules)).toBe(rule);
+        expect(matchTemplateRule(signatureStatement)?.name).toEqual('single condition');
+    });
+
+    test('error on duplicate name', () => {
+        expect(() => registerTemplateRule({ ...rule, name: 'therapeutic' })).toThrow('A template rule with the name (therapeutic) already exists');
+    });
+
+    test('error on unknown rule to insert before', () => {
+        expect(() => registerTemplateRule(rule, { before: 'blargh' })).toThrow('There is no rule named (blargh)');
+    });
+});
+
+describe('removeTemplateRule', () => {
+    test('unknown rule', () => {
+        expect(removeTemplateRule('blargh')).toBeNull();
+    });
+
+    test('rule is removed', () => {
+        const rules = [...TEMPLATE_RULES];
+        expect(removeTemplateRule('single condition', rules)?.name).toEqual('single condition');
+        expect(matchTemplateRule(signatureStatement, rules)?.name).toEqual('default');
+    });
+});
+
+describe('relevanceCategory', () => {
+    test.each([
+        ['sensitivity', 'therapeutic'],
+        ['favours diagnosis', 'diagnostic'],
+        ['diagnostic indicator', 'diagnostic'],
+        ['unfavourable prognosis', 'prognostic'],
+        ['likely gain of function', 'functional'],
+        ['increased expression', 'functional'],
+        ['Eligibility', 'eligibility'],
+        ['recurrent', 'recurrent'],
+        ['oncogenic', null],
+    ])('%s', (relevance, category) => {
+        expect(relevanceCategory(relevance)).toBe(category);
+    });
+});
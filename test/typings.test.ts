@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+
+import { schema } from '../src';
+import { createClassDefinition } from '../src/class';
+import { SchemaDefinition } from '../src/schema';
+import { generateInterface, generateRecordInterfaces } from '../src/typings';
+
+describe('generateInterface', () => {
+    const mockSchema = new SchemaDefinition({
+        parent: createClassDefinition({ name: 'parent', properties: [{ name: 'name', mandatory: true, nullable: false }] }),
+        child: createClassDefinition({
+            name: 'child',
+            inherits: ['parent'],
+            description: 'a child',
+            properties: [
+                { name: 'size', type: 'integer', description: 'how big' },
+                { name: 'kind', choices: ['big', 'small'], nullable: false },
+                { name: 'friends', type: 'linkset', linkedClass: 'parent' },
+                { name: '@rid', type: 'link', mandatory: true },
+            ],
+        }),
+    });
+
+    test('inheritance and modifiers', () => {
+        expect(generateInterface(mockSchema, 'child')).toEqual([
+            '/** a child */',
+            'export interface child extends parent {',
+            '    /** how big */',
+            '    size?: number | null;',
+            '    kind?: \'big\' | \'small\';',
+            '    friends?: (GraphRecordId | parent)[] | null;',
+            '    \'@rid\': GraphRecordId | null;',
+            '}',
+        ].join('\n'));
+    });
+
+    test('embedded classes with subclasses are a union', () => {
+        const result = generateInterface(schema, 'PositionalVariant');
+        expect(result).toContain('break1Start: ProteinPosition | CytobandPosition |');
+    });
+
+    test('embedded subclasses narrow the @class', () => {
+        expect(generateInterface(schema, 'ExonicPosition')).toContain('\'@class\': \'ExonicPosition\';');
+    });
+});
+
+test('src/records.ts is up to date', () => {
+    const current = fs.readFileSync(path.resolve(__dirname, '../src/records.ts')).toString();
+    expect(generateRecordInterfaces(schema)).toEqual(current);
+});
@@ -200,3 +200,17 @@ describe('castNullableLink', () => {
         expect(util.castNullableLink('#24:1')).toEqual(new RID('#24:1'));
     });
 });
+
+describe('naturalListJoin', () => {
+    test('single word', () => {
+        expect(util.naturalListJoin(['KRAS'])).toEqual('KRAS');
+    });
+
+    test('multiple words', () => {
+        expect(util.naturalListJoin(['KRAS', 'NRAS', 'HRAS'])).toEqual('KRAS, NRAS and HRAS');
+    });
+
+    test('conjunction', () => {
+        expect(util.naturalListJoin(['KRAS', 'NRAS'], 'et')).toEqual('KRAS et NRAS');
+    });
+});
@@ -0,0 +1,173 @@
+import { schema } from '../src';
+import {
+    generateVariantDisplayName, generateVariantNotation, parseBreakRepr, positionsFromBreakReprs,
+} from '../src/variantNotation';
+
+const kras = { '@rid': '#33:1', displayName: 'KRAS', name: 'kras' };
+
+describe('generateVariantNotation', () => {
+    test.each([
+        [
+            'protein substitution',
+            {
+                reference1: kras,
+                type: { '@rid': '#34:1', name: 'substitution' },
+                break1Start: { '@class': 'ProteinPosition', pos: 12, refAA: 'G' },
+                untemplatedSeq: 'D',
+            },
+            'KRAS:p.G12D',
+        ],
+        [
+            'fusion',
+            {
+                reference1: { '@rid': '#33:2', displayName: 'BCR' },
+                reference2: { '@rid': '#33:3', displayName: 'ABL1' },
+                type: { name: 'fusion' },
+                break1Repr: 'e.13',
+                break2Repr: 'e.2',
+            },
+            '(BCR,ABL1):fusion(e.13,e.2)',
+        ],
+        [
+            'indel range without expanded features',
+            {
+                reference1: '#33:1',
+                hgvsType: 'delins',
+                break1Start: { '@class': 'CdsPosition', pos: 123 },
+                break2Start: { '@class': 'CdsPosition', pos: 124 },
+                untemplatedSeq: 'AT',
+            },
+            'c.123_124delinsAT',
+        ],
+        [
+            'hgvsType takes precedence over the type name',
+            {
+                reference1: kras,
+                reference2: kras,
+                type: { name: 'indel' },
+                hgvsType: 'del',
+                break1Repr: 'c.10',
+                refSeq: 'A',
+            },
+            'KRAS:c.10delA',
+        ],
+        [
+            'frameshift with truncation',
+            {
+                reference1: kras,
+                type: { name: 'frameshift' },
+                break1Repr: 'p.R10',
+                untemplatedSeq: 'K',
+                truncation: 5,
+            },
+            'KRAS:p.R10Kfs*5',
+        ],
+    ])('%s', (_, record, expected) => {
+        expect(generateVariantNotation(record)).toBe(expected);
+    });
+
+    test('error when the type is not expanded', () => {
+        expect(() => generateVariantNotation({ reference1: kras, type: '#34:1', break1Repr: 'p.G12' }))
+            .toThrow('The variant type must be expanded');
+    });
+
+    test('error when there is no first break', () => {
+        expect(() => generateVariantNotation({ reference1: kras, type: { name: 'substitution' } }))
+            .toThrow('The first break (break1Start or break1Repr) is required');
+    });
+
+    test('error on invalid notation', () => {
+        expect(() => generateVariantNotation({
+            reference1: kras, reference2: { '@rid': '#33:2' }, type: { name: 'fusion' }, break1Repr: 'e.1',
+        })).toThrow('Unable to create the variant notation');
+    });
+});
+
+describe('generateVariantDisplayName', () => {
+    const variant = {
+        break1Start: { '@class': 'ProteinPosition', pos: 12, refAA: 'G' },
+        createdBy: '#44:1',
+        reference1: kras,
+        type: { '@rid': '#34:1', name: 'substitution' },
+        updatedBy: '#44:1',
+        untemplatedSeq: 'D',
+    };
+
+    test('default displayName for PositionalVariant', () => {
+        const record = schema.formatRecord('PositionalVariant', variant, { addDefaults: true });
+        expect(record).toHaveProperty('displayName', 'KRAS:p.G12D');
+        // links are still stored as record IDs
+        expect(`${record.reference1}`).toBe('#33:1');
+    });
+
+    test('given displayName is kept', () => {
+        const record = schema.formatRecord('PositionalVariant', { ...variant, displayName: 'G12D' }, { addDefaults: true });
+        expect(record).toHaveProperty('displayName', 'G12D');
+    });
+
+    test('null when the features are not expanded', () => {
+        const record = schema.formatRecord('PositionalVariant', { ...variant, reference1: '#33:1' }, { addDefaults: true });
+        expect(record).toHaveProperty('displayName', null);
+    });
+
+    test('name when the notation cannot be created', () => {
+        expect(generateVariantDisplayName({
+            name: 'kras g12d', reference1: kras, type: '#34:1', break1Repr: 'p.G12',
+        })).toBe('kras g12d');
+    });
+});
+
+describe('parseBreakRepr', () => {
+    test.each([
+        ['p.G12', { start: { '@class': 'ProteinPosition', pos: 12, refAA: 'G' } }],
+        ['e.(4_5)', { start: { '@class': 'ExonicPosition', pos: 4 }, end: { '@class': 'ExonicPosition', pos: 5 } }],
+        ['c.123+1', { start: { '@class': 'CdsPosition', pos: 123, offset: 1 } }],
+        ['y.p11.1', {
+            start: {
+                '@class': 'CytobandPosition', arm: 'p', majorBand: 11, minorBand: 1,
+            },
+        }],
+        ['g.(100_?)', { start: { '@class': 'GenomicPosition', pos: 100 }, end: { '@class': 'GenomicPosition', pos: null } }],
+    ])('%s', (repr, expected) => {
+        expect(schema.parseBreakRepr(repr)).toEqual(expected);
+    });
+
+    test.each([
+        ['p.G12D', 'did not match the expected pattern'],
+        ['x.12', 'expected a known prefix'],
+        ['G12', 'expected a known prefix'],
+    ])('error on %s', (repr, message) => {
+        expect(() => parseBreakRepr(schema, repr)).toThrow(message);
+    });
+
+    test.each([null, 12])('error on non-string %s', (repr) => {
+        expect(() => parseBreakRepr(schema, repr as unknown as string)).toThrow(
+            expect.objectContaining({ code: 'CAST_FAILED', message: expect.stringContaining('expected a string') }),
+        );
+    });
+
+    test('error code on unknown prefix', () => {
+        expect(() => parseBreakRepr(schema, 'x.12')).toThrow(expect.objectContaining({ code: 'PATTERN_MISMATCH' }));
+    });
+
+    test('error on invalid position', () => {
+        expect(() => parseBreakRepr(schema, 'e.0')).toThrow('must be a positive integer');
+    });
+
+    test('round trips the generated repr', () => {
+        const variant = schema.formatRecord('PositionalVariant', {
+            break1Start: { '@class': 'CdsPosition', pos: 12, offset: -2 },
+            break2Start: { '@class': 'ExonicPosition', pos: 1 },
+            break2End: { '@class': 'ExonicPosition', pos: 3 },
+            createdBy: '#44:1',
+            updatedBy: '#44:1',
+            reference1: '#33:1',
+            type: '#33:2',
+        });
+        expect(positionsFromBreakReprs(schema, variant as { break1Repr: string; break2Repr: string })).toEqual({
+            break1Start: variant.break1Start,
+            break2Start: variant.break2Start,
+            break2End: variant.break2End,
+        });
+    });
+});